@@ -0,0 +1,67 @@
+// Policy fixtures: each fixtures/<name>.json holds a policy and the decisions it must
+// produce for a list of requests.
+//
+//   npm run bench:policy
+//
+// Cases run through evaluatePolicy exactly as /api/ai/execute calls it; the run exits
+// non-zero when any decision differs from `expect`.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { aiPolicySchema, evaluatePolicy, type LoadedPolicy, type PolicyAction } from '../../src/server/lib/ai-policy';
+
+type PolicyCase = {
+  id: string;
+  method: string;
+  path: string;
+  /** Defaults to a user with no roles. */
+  roles?: string[];
+  expect: PolicyAction;
+};
+
+type PolicyFixture = {
+  name: string;
+  description?: string;
+  environment?: string;
+  policy: unknown;
+  cases: PolicyCase[];
+};
+
+// Compiled to bench/.build/bench/policy/run.js; fixtures stay in the source tree.
+const FIXTURES_DIR = path.resolve(__dirname, '..', '..', '..', '..', 'bench', 'policy', 'fixtures');
+
+function main() {
+  const files = fs
+    .readdirSync(FIXTURES_DIR)
+    .filter((f) => f.endsWith('.json'))
+    .sort();
+  let failures = 0;
+  for (const file of files) {
+    const fixture = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8')) as PolicyFixture;
+    const loaded: LoadedPolicy = {
+      source: 'file',
+      path: file,
+      environment: fixture.environment ?? 'production',
+      policy: aiPolicySchema.parse(fixture.policy),
+    };
+
+    console.log(`\n${fixture.name}${fixture.description ? ` — ${fixture.description}` : ''}`);
+    for (const c of fixture.cases) {
+      const user = { userId: 'fixture', email: 'fixture@example.com', roles: c.roles ?? [] };
+      const decision = evaluatePolicy(user, { httpMethod: c.method, path: c.path }, loaded);
+      const ok = decision.action === c.expect;
+      if (!ok) failures++;
+      const got = ok ? '' : `  expected ${c.expect}, got ${decision.action}`;
+      console.log(`  ${ok ? ' ' : '✗'} ${c.id.padEnd(24)} ${c.method} ${c.path}${got}`);
+    }
+  }
+
+  if (failures > 0) {
+    console.log(`\n${failures} case${failures === 1 ? '' : 's'} did not match.`);
+    process.exitCode = 1;
+  } else {
+    console.log('\nAll policy fixtures match.');
+  }
+}
+
+main();
@@ -0,0 +1,231 @@
+// Offline retrieval-quality benchmark for `methods-search`.
+//
+//   npm run bench:retrieval                      # all suites, compared with baseline.json
+//   npm run bench:retrieval -- --suite crm       # one suite
+//   npm run bench:retrieval -- --update          # accept the current results as the baseline
+//   npm run bench:retrieval -- --capabilities .hit/generated/capabilities.json
+//
+// Each suite (suites/<name>/suite.json) lists queries with optional page context and
+// the methods expected for them, written as "METHOD /path" or as catalog method names.
+// Queries run through the same pipeline as the route (searchMethodCatalog), lexically
+// unless `--embeddings local` is given, so no network is needed. The run reports
+// recall@k and MRR per suite and exits non-zero when a query ranks worse than in the
+// saved baseline.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { buildMethodCatalog, methodNameFor, type CapabilitiesFile, type MethodSpec } from '../../src/server/lib/ai-methods';
+import { parsePackAiHints, readYamlSection, type PackAiHints } from '../../src/server/lib/ai-hints';
+import { searchMethodCatalog } from '../../src/server/lib/ai-method-search';
+import { createHashingEmbeddingProvider } from '../../src/server/lib/ai-retrieval';
+
+type BenchCase = {
+  id: string;
+  query: string;
+  context?: { pathname?: string; pack?: string };
+  expected: string[];
+};
+
+type Suite = {
+  name: string;
+  description?: string;
+  /** Relative to the suite directory. */
+  capabilities: string;
+  featurePacks?: string[];
+  cases: BenchCase[];
+};
+
+type CaseResult = {
+  id: string;
+  query: string;
+  /** 1-based rank of the first expected method, null if not retrieved. */
+  rank: number | null;
+  recall: number;
+  top: string | null;
+};
+
+type SuiteResult = {
+  name: string;
+  recallAtK: number;
+  mrr: number;
+  cases: CaseResult[];
+};
+
+type Baseline = {
+  k: number;
+  embeddings: string;
+  suites: Record<string, { recallAtK: number; mrr: number; cases: Record<string, { rank: number | null; recall: number }> }>;
+};
+
+// Compiled to bench/.build/bench/retrieval/run.js; fixtures stay in the source tree.
+const ROOT = path.resolve(__dirname, '..', '..', '..', '..', 'bench', 'retrieval');
+const SUITES_DIR = path.join(ROOT, 'suites');
+const BASELINE_PATH = path.join(ROOT, 'baseline.json');
+/** Candidates fetched per query; ranks beyond this count as misses. */
+const DEPTH = 20;
+
+function parseArgs(argv: string[]) {
+  const args = { suites: [] as string[], k: 5, update: false, embeddings: 'off', capabilities: null as string | null };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--suite') args.suites.push(argv[++i]);
+    else if (a === '--k') args.k = Math.max(1, Number(argv[++i]) || 5);
+    else if (a === '--update') args.update = true;
+    else if (a === '--embeddings') args.embeddings = argv[++i];
+    else if (a === '--capabilities') args.capabilities = path.resolve(argv[++i]);
+    else throw new Error(`Unknown argument: ${a}`);
+  }
+  return args;
+}
+
+function readJson<T>(file: string): T {
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+}
+
+/** "POST /api/crm/contacts" → route_api_crm_contacts__POST; method names pass through. */
+function expectedName(ref: string): string {
+  const m = /^(GET|POST|PUT|PATCH|DELETE)\s+(\/\S*)$/i.exec(ref.trim());
+  return m ? methodNameFor(m[2], m[1]) : ref.trim();
+}
+
+function loadSuite(name: string): { suite: Suite; dir: string } {
+  const dir = path.join(SUITES_DIR, name);
+  return { suite: readJson<Suite>(path.join(dir, 'suite.json')), dir };
+}
+
+async function runSuite(
+  suite: Suite,
+  dir: string,
+  opts: { k: number; embeddings: string; capabilities: string | null }
+): Promise<SuiteResult> {
+  const caps = readJson<CapabilitiesFile>(opts.capabilities ?? path.join(dir, suite.capabilities));
+  const methods: MethodSpec[] = buildMethodCatalog(caps);
+  const known = new Set(methods.map((m) => m.name));
+  const packHints: PackAiHints[] = (suite.featurePacks ?? []).map((file) => {
+    const text = fs.readFileSync(path.join(dir, file), 'utf8');
+    const name = /^name:\s*(.+?)\s*$/m.exec(text)?.[1] ?? path.basename(file, '.yaml');
+    return parsePackAiHints(name, readYamlSection(text, 'ai'));
+  });
+  const embeddings = opts.embeddings === 'local' ? createHashingEmbeddingProvider() : null;
+
+  const cases: CaseResult[] = [];
+  for (const c of suite.cases) {
+    const expected = c.expected.map(expectedName);
+    const unknown = expected.filter((e) => !known.has(e));
+    if (unknown.length > 0) {
+      console.warn(`  ! ${suite.name}/${c.id}: expected method(s) not in the catalog: ${unknown.join(', ')}`);
+    }
+    const { candidates } = await searchMethodCatalog(methods, {
+      query: c.query,
+      pack: c.context?.pack ?? null,
+      pathname: c.context?.pathname ?? null,
+      limit: DEPTH,
+      packHints,
+      embeddings,
+    });
+    const names = candidates.map((m) => m.name);
+    const index = names.findIndex((n) => expected.includes(n));
+    const topK = new Set(names.slice(0, opts.k));
+    cases.push({
+      id: c.id,
+      query: c.query,
+      rank: index === -1 ? null : index + 1,
+      recall: expected.length > 0 ? expected.filter((e) => topK.has(e)).length / expected.length : 1,
+      top: names[0] ?? null,
+    });
+  }
+
+  const mean = (xs: number[]) => (xs.length > 0 ? xs.reduce((a, b) => a + b, 0) / xs.length : 0);
+  return {
+    name: suite.name,
+    recallAtK: mean(cases.map((c) => c.recall)),
+    mrr: mean(cases.map((c) => (c.rank ? 1 / c.rank : 0))),
+    cases,
+  };
+}
+
+function worse(now: { rank: number | null; recall: number }, before: { rank: number | null; recall: number }): boolean {
+  const rank = (r: number | null) => r ?? Infinity;
+  return rank(now.rank) > rank(before.rank) || now.recall < before.recall;
+}
+
+function better(now: { rank: number | null; recall: number }, before: { rank: number | null; recall: number }): boolean {
+  return worse(before, now);
+}
+
+function fmt(n: number): string {
+  return n.toFixed(3);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const names =
+    args.suites.length > 0
+      ? args.suites
+      : fs
+          .readdirSync(SUITES_DIR, { withFileTypes: true })
+          .filter((d) => d.isDirectory())
+          .map((d) => d.name)
+          .sort();
+  const baseline: Baseline | null = fs.existsSync(BASELINE_PATH) ? readJson<Baseline>(BASELINE_PATH) : null;
+  if (baseline && baseline.k !== args.k && !args.update) {
+    console.warn(`! baseline was recorded with k=${baseline.k}; recall@${args.k} is not comparable`);
+  }
+  if (baseline && (baseline.embeddings ?? 'off') !== args.embeddings && !args.update) {
+    console.warn(`! baseline was recorded with --embeddings ${baseline.embeddings ?? 'off'}; rankings are not comparable`);
+  }
+
+  let regressions = 0;
+  const results: SuiteResult[] = [];
+  for (const name of names) {
+    const { suite, dir } = loadSuite(name);
+    const result = await runSuite(suite, dir, args);
+    results.push(result);
+    const before = baseline?.suites[name];
+
+    console.log(`\n${suite.name}${suite.description ? ` — ${suite.description}` : ''}`);
+    for (const c of result.cases) {
+      const prev = before?.cases[c.id];
+      const mark = !prev ? ' ' : worse(c, prev) ? '✗' : better(c, prev) ? '↑' : ' ';
+      if (mark === '✗') regressions++;
+      const rank = c.rank ? `#${c.rank}` : 'miss';
+      const was = prev && (prev.rank !== c.rank || prev.recall !== c.recall) ? ` (was ${prev.rank ? `#${prev.rank}` : 'miss'})` : '';
+      const top = c.rank === 1 ? '' : `  top: ${c.top ?? '—'}`;
+      console.log(`  ${mark} ${rank.padEnd(5)} ${c.id.padEnd(28)} ${c.query}${was}${top}`);
+    }
+    const delta = (now: number, prev?: number) => (prev === undefined ? '' : ` (${now - prev >= 0 ? '+' : ''}${fmt(now - prev)})`);
+    console.log(
+      `  recall@${args.k} ${fmt(result.recallAtK)}${delta(result.recallAtK, before?.recallAtK)}` +
+        `  MRR ${fmt(result.mrr)}${delta(result.mrr, before?.mrr)}  (${result.cases.length} queries)`
+    );
+  }
+
+  if (args.update) {
+    const next: Baseline = { k: args.k, embeddings: args.embeddings, suites: { ...(baseline?.suites ?? {}) } };
+    for (const r of results) {
+      next.suites[r.name] = {
+        recallAtK: Number(fmt(r.recallAtK)),
+        mrr: Number(fmt(r.mrr)),
+        cases: Object.fromEntries(r.cases.map((c) => [c.id, { rank: c.rank, recall: c.recall }])),
+      };
+    }
+    fs.writeFileSync(BASELINE_PATH, `${JSON.stringify(next, null, 2)}\n`, 'utf8');
+    console.log(`\nBaseline updated: ${path.relative(process.cwd(), BASELINE_PATH)}`);
+    return;
+  }
+  if (!baseline) {
+    console.log('\nNo baseline yet; run with --update to record one.');
+    return;
+  }
+  if (regressions > 0) {
+    console.log(`\n${regressions} quer${regressions === 1 ? 'y' : 'ies'} ranked worse than the baseline.`);
+    process.exitCode = 1;
+  } else {
+    console.log('\nNo regressions against the baseline.');
+  }
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+});
@@ -1,6 +1,42 @@
 'use client';
 
-import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { authedJson, getStoredToken } from './ai-client';
+import { isEventStream, readEventStream } from './ai-stream';
+import { ApprovalCard, type ApprovalDraft } from './ApprovalCard';
+import { Markdown } from './Markdown';
+import { ConversationHistory } from './ConversationHistory';
+import {
+  createConversation,
+  downloadConversation,
+  getConversation,
+  migrateLocalHistory,
+  shareConversation,
+  updateConversation,
+  type ExportFormat,
+} from './ai-conversations';
+import { MessageFeedback } from './MessageFeedback';
+import { sendFeedback, type FeedbackRating, type FeedbackReason } from './ai-feedback';
+import { SlashMenu, type SlashMenuItem } from './SlashMenu';
+import { SkillVariablesForm } from './SkillVariablesForm';
+import { createSkill, listSkills, type Skill } from './ai-skills';
+import {
+  getSlashCommands,
+  parseSlashInput,
+  registerBuiltinSlashCommands,
+  subscribeSlashCommands,
+  type SlashCommand,
+  type SlashCommandContext,
+} from './ai-commands';
+import { collectAiContext } from './ai-context';
+import {
+  defaultAllowedActions,
+  dispatchClientActions,
+  isAppPath,
+  registerBuiltinClientActions,
+  type ClientActionResult,
+  type ToastVariant,
+} from './ai-actions';
 
 /**
  * Check if the given pathname is an auth-related page where the AI overlay should be hidden.
@@ -42,17 +78,43 @@ type Role = 'user' | 'assistant' | 'system';
 type ChatMessage = {
   role: Role;
   content: string;
+  at?: string;
+  /** Agent run that produced this message (links exports and traces). */
+  correlationId?: string;
+  /** Set on the note recording what happened to an approval draft. */
+  approval?: ApprovalOutcome;
+  /** The user's rating of the run, mirrored on every message it produced. */
+  feedback?: FeedbackRating;
 };
 
 type AgentResponse = {
   reply?: string;
   correlationId?: string;
-  pulses?: Array<{ actor?: string; kind?: string; message?: string }> | null;
+  pulses?: Pulse[] | null;
+  /** Writes the agent proposed; same shape `/api/ai/execute` returns when approval is required. */
+  approvals?: unknown[] | null;
+  /** UI actions for the overlay to run in the browser (see ai-actions). */
+  actions?: unknown[] | null;
 };
 
-type PendingApproval = {
+type Pulse = { actor?: string; kind?: string; message?: string };
+
+type PendingApproval = ApprovalDraft & {
+  /** Drafts queued by a slash command are not reported back to the agent. */
+  source?: 'agent' | 'command';
+};
+
+/** What became of one approval draft; sent back to the agent when the queue drains. */
+type ApprovalOutcome = {
   toolName: string;
   input: Record<string, any>;
+  status: 'executed' | 'failed' | 'declined' | 'denied' | 'awaiting_second_approver';
+  result: unknown;
+};
+
+type AgentResume = {
+  correlationId: string | null;
+  results: ApprovalOutcome[];
 };
 
 function safeJsonStringify(value: unknown, maxLen: number = 4000): string {
@@ -109,6 +171,83 @@ function summarizeHttpResult(input: Record<string, any>, data: any): string {
   return `✅ Request completed${safeStatus ? ` (status: ${safeStatus})` : ''}.`;
 }
 
+function summarizeBulkResult(data: any): string {
+  const ok = typeof data?.ok === 'number' ? data.ok : 0;
+  const failed = typeof data?.failed === 'number' ? data.failed : 0;
+  if (data?.mode !== 'atomic' || typeof data?.failedStep !== 'number') {
+    return failed === 0 ? `✅ Done (${ok} request${ok === 1 ? '' : 's'}).` : `⚠️ ${ok} succeeded, ${failed} failed.`;
+  }
+  const rolledBack = Array.isArray(data.rolledBack) ? data.rolledBack.length : 0;
+  const notRolledBack = Array.isArray(data.notRolledBack) ? (data.notRolledBack as any[]) : [];
+  const lines = [`⚠️ Step ${data.failedStep + 1} failed; rolled back ${rolledBack} earlier write${rolledBack === 1 ? '' : 's'}.`];
+  for (const r of notRolledBack) {
+    lines.push(`- Could not undo step ${Number(r?.stepIndex) + 1} (${String(r?.method || '')} ${String(r?.path || '')}): ${String(r?.error || 'unknown error')}`);
+  }
+  return lines.join('\n');
+}
+
+function formatPolicyDenial(data: any): string | null {
+  if (data?.code !== 'method_not_permitted' || !Array.isArray(data?.denials)) return null;
+  const lines = (data.denials as any[]).map(
+    (d) => `- ${String(d?.method || '')} ${String(d?.path || '')}: ${String(d?.reason || 'not permitted')}`
+  );
+  return `⛔ Not permitted for your role.\n${lines.join('\n')}`;
+}
+
+function formatPulses(pulses: Pulse[]): string {
+  return pulses
+    .map((p) => `- ${String(p.actor || 'unknown')}: ${String(p.kind || 'event')} — ${String(p.message || '')}`)
+    .join('\n');
+}
+
+function describeToolCall(data: any): string {
+  const name = String(data?.name || data?.toolName || 'tool');
+  const input = asRecord(data?.input);
+  const target = input && typeof input.path === 'string' ? ` ${String(input.method || 'GET').toUpperCase()} ${input.path}` : '';
+  const status = typeof data?.status === 'string' && data.status ? ` (${data.status})` : '';
+  return `🔧 ${name}${target}${status}`;
+}
+
+/** Snapshots published by the current page through useAiContext, read at send time. */
+function pageContext(): Record<string, unknown> {
+  const { snapshots, omitted } = collectAiContext();
+  if (Object.keys(snapshots).length === 0 && omitted.length === 0) return {};
+  return { page: snapshots, ...(omitted.length > 0 ? { pageOmitted: omitted } : {}) };
+}
+
+/** Transcript note listing what the agent's UI actions did. */
+function formatActionResults(results: ClientActionResult[]): string {
+  return results
+    .map((r) => {
+      if (r.ok) return `- 🤖 Assistant ${r.note}.`;
+      return `- ⚠️ ${r.note.charAt(0).toUpperCase()}${r.note.slice(1)}.`;
+    })
+    .join('\n');
+}
+
+/**
+ * Accept approval drafts either as `/api/ai/execute` returns them
+ * ({ requiresApproval, approvalMode, draft: { toolName, input } }) or as bare drafts.
+ */
+function normalizeApprovals(items: unknown): PendingApproval[] {
+  if (!Array.isArray(items)) return [];
+  const out: PendingApproval[] = [];
+  for (const item of items) {
+    const rec = asRecord(item);
+    const draft = asRecord(rec?.draft) ?? rec;
+    const input = asRecord(draft?.input);
+    if (!rec || !draft || typeof draft.toolName !== 'string' || !input) continue;
+    out.push({
+      toolName: draft.toolName,
+      input,
+      ...(rec.approvalMode === 'two_person' || rec.approvalMode === 'single' ? { approvalMode: rec.approvalMode } : {}),
+      ...(typeof rec.approvalId === 'string' ? { approvalId: rec.approvalId } : {}),
+      ...(typeof rec.expiresAt === 'string' ? { expiresAt: rec.expiresAt } : {}),
+    });
+  }
+  return out;
+}
+
 function asRecord(v: unknown): Record<string, any> | null {
   return v && typeof v === 'object' && !Array.isArray(v) ? (v as any) : null;
 }
@@ -184,27 +323,14 @@ function updateAiStateFromApproval(
   return next;
 }
 
-function getStoredToken(): string | null {
-  if (typeof document !== 'undefined') {
-    const cookies = document.cookie.split(';');
-    for (const cookie of cookies) {
-      const [name, value] = cookie.trim().split('=');
-      if (name === 'hit_token' && value) return value;
-    }
-  }
-  if (typeof localStorage !== 'undefined') {
-    return localStorage.getItem('hit_token');
-  }
-  return null;
-}
-
-function getChatStorageKey(opts: { pathname?: string; userEmail?: string | null }): string {
+// Per-user pointer to the open conversation plus the unsent input; the
+// transcript itself lives in the server-side conversation store.
+function getChatStorageKey(opts: { userEmail?: string | null }): string {
   const email = (opts.userEmail || 'anon').toLowerCase();
-  const path = (opts.pathname || '/').split('?')[0].split('#')[0];
-  return `hit_ai_assistant_chat_v2:${email}:${path}`;
+  return `hit_ai_assistant_current_v3:${email}`;
 }
 
-function loadChatState(key: string): { messages?: ChatMessage[]; input?: string } | null {
+function loadChatState(key: string): { conversationId?: string | null; input?: string } | null {
   try {
     if (typeof window === 'undefined') return null;
     const raw = window.localStorage.getItem(key);
@@ -217,7 +343,7 @@ function loadChatState(key: string): { messages?: ChatMessage[]; input?: string
   }
 }
 
-function saveChatState(key: string, state: { messages: ChatMessage[]; input: string }) {
+function saveChatState(key: string, state: { conversationId: string | null; input: string }) {
   try {
     if (typeof window === 'undefined') return;
     window.localStorage.setItem(key, JSON.stringify(state));
@@ -233,6 +359,10 @@ export function AiOverlay(props: {
   user?: { email?: string; roles?: string[] } | null;
   /** Hide the overlay on auth pages like /login, /signup, etc. Defaults to true. */
   hideOnAuthPages?: boolean;
+  /** Client-side router push for agent `navigate`/`openRecord` actions. Without it the page reloads. */
+  onNavigate?: (path: string) => void;
+  /** Agent action types allowed to run here. Defaults to the built-in actions. */
+  allowedActions?: string[];
 }) {
   // The AI overlay is a shell-level component, but it should only appear for
   // authenticated users. We use the same token source we use for API calls.
@@ -248,9 +378,25 @@ export function AiOverlay(props: {
   const [loading, setLoading] = useState(false);
   const [lastCorrelationId, setLastCorrelationId] = useState<string | null>(null);
   const [traceLoading, setTraceLoading] = useState(false);
-  const [pendingApproval, setPendingApproval] = useState<PendingApproval | null>(null);
+  // Drafts proposed by the agent, shown one at a time; the head is the one on screen.
+  const [approvalQueue, setApprovalQueue] = useState<PendingApproval[]>([]);
+  const pendingApproval = approvalQueue[0] ?? null;
+  const approvalResultsRef = useRef<ApprovalOutcome[]>([]);
+  // In-flight chat request (streaming or not); aborting it stops the reply upstream.
+  const [activeRequest, setActiveRequest] = useState<AbortController | null>(null);
+  const [liveActivity, setLiveActivity] = useState<string[]>([]);
+  const [streamingReply, setStreamingReply] = useState(false);
+  const [toasts, setToasts] = useState<Array<{ id: number; message: string; variant: ToastVariant }>>([]);
+  const toastIdRef = useRef(0);
+  // Full-page navigation requested by an agent action; runs once the turn has been saved.
+  const [pendingNavigation, setPendingNavigation] = useState<string | null>(null);
   const aiStateRef = useRef<Record<string, any> | null>(null);
 
+  useEffect(() => {
+    registerBuiltinSlashCommands();
+    registerBuiltinClientActions();
+  }, []);
+
   // Track pathname changes (for client-side navigation)
   useEffect(() => {
     if (typeof window === 'undefined') return;
@@ -314,32 +460,156 @@ export function AiOverlay(props: {
   );
 
   const chatStorageKey = useMemo(
-    () => getChatStorageKey({ pathname: currentPathname, userEmail: props.user?.email ?? null }),
-    [currentPathname, props.user?.email]
+    () => getChatStorageKey({ userEmail: props.user?.email ?? null }),
+    [props.user?.email]
   );
 
-  const [messages, setMessages] = useState<ChatMessage[]>(() => {
-    const saved = loadChatState(chatStorageKey);
-    if (saved?.messages && Array.isArray(saved.messages) && saved.messages.length > 0) {
-      return saved.messages as ChatMessage[];
-    }
-    return initialMessages;
-  });
+  const [messages, setMessages] = useState<ChatMessage[]>(initialMessages);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [restored, setRestored] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [skills, setSkills] = useState<Skill[]>([]);
+  const [slashIndex, setSlashIndex] = useState(0);
+  // Input value at which the user dismissed the `/` menu with Escape.
+  const [slashDismissed, setSlashDismissed] = useState<string | null>(null);
+  const [activeSkill, setActiveSkill] = useState<Skill | null>(null);
+  // Picking a command from the menu runs it; the runner is defined further down.
+  const runSlashCommandRef = useRef<(command: SlashCommand, args: string) => Promise<void>>(async () => {});
+  // Saves run in order; switching threads bumps the generation so queued saves
+  // for the previous thread are dropped instead of landing in the new one.
+  const conversationIdRef = useRef<string | null>(null);
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve());
+  const generationRef = useRef(0);
+  // Latest transcript for callbacks that resume the agent after an approval.
+  const messagesRef = useRef<ChatMessage[]>(messages);
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
 
+  const enqueueApprovals = useCallback((drafts: PendingApproval[]) => {
+    setApprovalQueue((prev) => [...prev, ...drafts]);
+  }, []);
+
+  const showConversation = useCallback(
+    (id: string | null, restored: ChatMessage[] | null) => {
+      generationRef.current += 1;
+      conversationIdRef.current = id;
+      setConversationId(id);
+      setMessages(restored && restored.length > 0 ? restored : initialMessages);
+      setApprovalQueue([]);
+      approvalResultsRef.current = [];
+      setLastCorrelationId(null);
+    },
+    [initialMessages]
+  );
+
+  // Restore the open conversation (importing old localStorage chats the first time).
   useEffect(() => {
     if (!shouldRender) return;
+    let cancelled = false;
     const saved = loadChatState(chatStorageKey);
     if (saved?.input && typeof saved.input === 'string') setInput(saved.input);
+    (async () => {
+      let id = typeof saved?.conversationId === 'string' ? saved.conversationId : null;
+      try {
+        const migrated = await migrateLocalHistory(props.user?.email ?? null, currentPathname);
+        id = id ?? migrated;
+      } catch {
+        // retried on the next load
+      }
+      try {
+        if (!id || cancelled) return;
+        const conversation = await getConversation(id);
+        if (!cancelled) showConversation(conversation.id, conversation.messages as ChatMessage[]);
+      } catch {
+        // deleted elsewhere or not ours; start fresh
+      } finally {
+        if (!cancelled) setRestored(true);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+    // Only on (re)login; navigating between pages keeps the same conversation.
   }, [chatStorageKey, shouldRender]);
 
   useEffect(() => {
-    if (!shouldRender) return;
-    const trimmed = messages.slice(-50);
+    if (!shouldRender || !restored) return;
     const t = window.setTimeout(() => {
-      saveChatState(chatStorageKey, { messages: trimmed, input });
+      saveChatState(chatStorageKey, { conversationId, input });
     }, 150);
     return () => window.clearTimeout(t);
-  }, [chatStorageKey, input, messages, shouldRender]);
+  }, [chatStorageKey, conversationId, input, restored, shouldRender]);
+
+  // Persist the transcript once a turn settles; the first save creates the conversation.
+  useEffect(() => {
+    if (!shouldRender || loading || !messages.some((m) => m.role === 'user')) return;
+    const generation = generationRef.current;
+    const snapshot = messages;
+    const t = window.setTimeout(() => {
+      saveChainRef.current = saveChainRef.current
+        .then(async () => {
+          if (generation !== generationRef.current) return;
+          const id = conversationIdRef.current;
+          if (id) {
+            await updateConversation(id, { messages: snapshot });
+            return;
+          }
+          const created = await createConversation({ pathname: currentPathname ?? null, messages: snapshot });
+          if (generation !== generationRef.current) return;
+          conversationIdRef.current = created.id;
+          setConversationId(created.id);
+        })
+        .catch(() => {
+          // keep chatting; the next settled turn retries the save
+        });
+    }, 600);
+    return () => window.clearTimeout(t);
+  }, [loading, messages, shouldRender]);
+
+  // A full page load drops in-memory state, so save the transcript (creating the
+  // conversation if needed) and point the restore key at it before leaving.
+  useEffect(() => {
+    if (!pendingNavigation || loading) return;
+    const path = pendingNavigation;
+    setPendingNavigation(null);
+    const snapshot = messagesRef.current;
+    // Queued on the save chain so the regular save can't create a second conversation meanwhile.
+    saveChainRef.current = saveChainRef.current
+      .then(async () => {
+        let id = conversationIdRef.current;
+        if (id) await updateConversation(id, { messages: snapshot });
+        else id = (await createConversation({ pathname: currentPathname ?? null, messages: snapshot })).id;
+        conversationIdRef.current = id;
+        saveChatState(chatStorageKey, { conversationId: id, input: '' });
+      })
+      .catch(() => {
+        // navigate anyway; the conversation restores from its last save
+      })
+      .then(() => window.location.assign(path));
+  }, [chatStorageKey, currentPathname, loading, pendingNavigation]);
+
+  const showToast = useCallback((message: string, variant: ToastVariant = 'info') => {
+    const id = ++toastIdRef.current;
+    setToasts((prev) => [...prev, { id, message, variant }]);
+    window.setTimeout(() => setToasts((prev) => prev.filter((t) => t.id !== id)), 4000);
+  }, []);
+
+  const openConversation = useCallback(
+    async (id: string) => {
+      setHistoryOpen(false);
+      if (id === conversationIdRef.current) return;
+      try {
+        const conversation = await getConversation(id);
+        showConversation(conversation.id, conversation.messages as ChatMessage[]);
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : 'Failed to open conversation.';
+        setMessages((prev) => [...prev, { role: 'assistant', content: `⚠️ ${msg}` }]);
+      }
+    },
+    [showConversation]
+  );
 
   const bottomRef = useRef<HTMLDivElement | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
@@ -357,6 +627,93 @@ export function AiOverlay(props: {
     }, 100);
   }, [open, shouldRender]);
 
+  // Refresh saved prompts each time the overlay opens; edits on the admin page show up without a reload.
+  useEffect(() => {
+    if (!shouldRender || !open) return;
+    let cancelled = false;
+    listSkills()
+      .then((data) => {
+        if (!cancelled) setSkills(Array.isArray(data?.items) ? data.items : []);
+      })
+      .catch(() => {
+        // skills are optional; the overlay works without them
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, shouldRender]);
+
+  const slashCommands = useSyncExternalStore(subscribeSlashCommands, getSlashCommands, getSlashCommands);
+
+  // Commands first, then saved prompts; prefix matches rank above substring matches.
+  const slashItems = useMemo((): SlashMenuItem[] => {
+    if (!input.startsWith('/') || /\s/.test(input) || input === slashDismissed) return [];
+    const q = input.slice(1).toLowerCase();
+    const byPrefix = (a: string, b: string) => Number(!a.startsWith(q)) - Number(!b.startsWith(q));
+    const commands = slashCommands
+      .filter((c) => c.name.includes(q))
+      .sort((a, b) => byPrefix(a.name, b.name))
+      .map((c) => ({
+        key: `command:${c.name}`,
+        label: `/${c.name}${c.usage ? ` ${c.usage}` : ''}`,
+        description: c.description,
+        badge: 'command',
+      }));
+    const prompts = skills
+      .filter((sk) => sk.name.includes(q) || sk.title.toLowerCase().includes(q))
+      .sort((a, b) => byPrefix(a.name, b.name))
+      .map((sk) => ({
+        key: sk.id,
+        label: `/${sk.name}`,
+        description: sk.description || sk.title,
+        badge: sk.scope === 'role' ? 'shared' : undefined,
+      }));
+    return [...commands, ...prompts].slice(0, 10);
+  }, [input, skills, slashCommands, slashDismissed]);
+
+  useEffect(() => {
+    setSlashIndex(0);
+  }, [slashItems.length]);
+
+  // Turn something the user typed into a private skill; they can add {{variables}} on the admin page.
+  const saveAsSkill = useCallback(async (text: string) => {
+    const raw = window.prompt('Save this prompt as /command (lowercase letters, digits, dashes):');
+    const name = (raw || '').trim().replace(/^\//, '').toLowerCase();
+    if (!name) return;
+    try {
+      const skill = await createSkill({ name, template: text, scope: 'user' });
+      setSkills((prev) => [...prev, skill]);
+      setMessages((prev) => [...prev, { role: 'assistant', content: `Saved as \`/${skill.name}\`. Type / to insert it.` }]);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : 'Failed to save skill.';
+      setMessages((prev) => [...prev, { role: 'assistant', content: `⚠️ ${msg}` }]);
+    }
+  }, []);
+
+  const pickSlashItem = useCallback(
+    (item: SlashMenuItem) => {
+      if (item.key.startsWith('command:')) {
+        const command = slashCommands.find((c) => `command:${c.name}` === item.key);
+        if (!command) return;
+        // Commands that take arguments wait for them; the rest run straight away.
+        if (command.usage) setInput(`/${command.name} `);
+        else void runSlashCommandRef.current(command, '');
+        inputRef.current?.focus();
+        return;
+      }
+      const skill = skills.find((sk) => sk.id === item.key);
+      if (!skill) return;
+      if (skill.variables.length > 0) {
+        setInput('');
+        setActiveSkill(skill);
+        return;
+      }
+      setInput(skill.template);
+      inputRef.current?.focus();
+    },
+    [skills, slashCommands]
+  );
+
   useEffect(() => {
     if (!shouldRender) return;
     const onKeyDown = (e: KeyboardEvent) => {
@@ -391,154 +748,414 @@ export function AiOverlay(props: {
     [props.packName, currentPathname, props.routeId, props.user]
   );
 
-  const runApproval = useCallback(async () => {
-    if (!pendingApproval) return;
-    const toolName = pendingApproval.toolName;
-    const token = authToken || getStoredToken();
-
-    setLoading(true);
-    try {
-      const res = await fetch('/api/ai/execute', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  // Run the agent's UI actions and note each one in the transcript.
+  const runClientActions = useCallback(
+    async (raw: unknown[], runId: string | null | undefined) => {
+      if (raw.length === 0) return;
+      const results = await dispatchClientActions(
+        raw,
+        {
+          pathname: currentPathname,
+          user: props.user,
+          navigate: (path) => {
+            if (!isAppPath(path)) throw new Error(`refusing to navigate outside the app: ${path}`);
+            if (props.onNavigate) props.onNavigate(path);
+            else setPendingNavigation(path);
+          },
+          toast: showToast,
         },
-        body: JSON.stringify({
-          toolName,
-          input: { ...pendingApproval.input, approved: true },
-        }),
-      });
-
-      const data = await res.json().catch(() => null);
-      if (!res.ok) {
-        throw new Error((data as any)?.error || res.statusText);
-      }
-
-      // IMPORTANT: Approved writes execute *outside* the agent loop.
-      // If we don't fold the execution result back into aiState, the next user turn
-      // has no reliable anchor (IDs/keys) and follow-up "oops/update it" requests become flaky.
-      aiStateRef.current = updateAiStateFromApproval(
-        aiStateRef.current || {},
-        toolName,
-        pendingApproval.input,
-        data,
+        props.allowedActions ?? defaultAllowedActions()
       );
-
-      setPendingApproval(null);
+      if (results.length === 0) return;
       setMessages((prev) => [
         ...prev,
         {
           role: 'assistant',
-          content: toolName === 'http.request' ? summarizeHttpResult(pendingApproval.input, data) : '✅ Done.',
+          content: formatActionResults(results),
+          at: new Date().toISOString(),
+          ...(runId ? { correlationId: runId } : {}),
         },
       ]);
-    } catch (e) {
-      const msg = e instanceof Error ? e.message : 'Failed to run approval.';
-      setMessages((prev) => [...prev, { role: 'assistant', content: `⚠️ ${msg}` }]);
-    } finally {
-      setLoading(false);
-    }
-  }, [pendingApproval]);
-
-  const send = useCallback(async () => {
-    const text = input.trim();
-    if (!text || loading) return;
-
-    setInput('');
-    setLoading(true);
-
-    const nextMessages: ChatMessage[] = [...messages, { role: 'user', content: text }];
-    setMessages(nextMessages);
-    setPendingApproval(null);
+    },
+    [currentPathname, props.allowedActions, props.onNavigate, props.user, showToast]
+  );
 
-    try {
-      const token = authToken || getStoredToken();
+  // Run one agent turn: a new user message, or a resume carrying approval results.
+  const runAgentTurn = useCallback(
+    async (payload: { message: string; history: ChatMessage[]; resume?: AgentResume }) => {
+      const controller = new AbortController();
+      setLoading(true);
+      setActiveRequest(controller);
+      setLiveActivity([]);
+      setStreamingReply(false);
 
-      // Nexus-first chat (single supported path)
       try {
-        const endpoint = '/api/proxy/ai/hit/ai/chat';
-        const agentRes = await fetch(endpoint, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          },
-          body: JSON.stringify({
-            message: text,
-            context: { ...context, aiState: aiStateRef.current || {} },
-            history: messages.slice(-16),
-          }),
-        });
-        const body = await readResponseBody(agentRes);
-        const agentData = (body.json as AgentResponse | null) ?? null;
+        const token = authToken || getStoredToken();
+
+        // Nexus-first chat (single supported path)
+        try {
+          const endpoint = '/api/proxy/ai/hit/ai/chat';
+          const agentRes = await fetch(endpoint, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              Accept: 'text/event-stream, application/json',
+              ...(token ? { Authorization: `Bearer ${token}` } : {}),
+            },
+            body: JSON.stringify({
+              message: payload.message,
+              context: { ...context, ...pageContext(), aiState: aiStateRef.current || {} },
+              history: payload.history.map((m) => ({ role: m.role, content: m.content })),
+              stream: true,
+              ...(payload.resume ? { resume: payload.resume } : {}),
+            }),
+            signal: controller.signal,
+          });
+
+          if (agentRes.ok && isEventStream(agentRes)) {
+            // The reply bubble is appended on the first token and grown in place.
+            let replyIndex = -1;
+            let runId: string | undefined;
+            const at = new Date().toISOString();
+            let streamed = '';
+            let final: AgentResponse | null = null;
+            let streamError: string | null = null;
+            const pulses: Pulse[] = [];
+            const drafts: PendingApproval[] = [];
+            const actions: unknown[] = [];
+            const showReply = (content: string) => {
+              const reply: ChatMessage = { role: 'assistant', content, at, ...(runId ? { correlationId: runId } : {}) };
+              setMessages((prev) => {
+                if (replyIndex === -1 || replyIndex >= prev.length) {
+                  replyIndex = prev.length;
+                  return [...prev, reply];
+                }
+                return prev.map((m, i) => (i === replyIndex ? reply : m));
+              });
+            };
+
+            try {
+              await readEventStream(agentRes, (ev) => {
+                const data = ev.data;
+                if (ev.event === 'start' && typeof data?.correlationId === 'string') {
+                  runId = data.correlationId;
+                  setLastCorrelationId(data.correlationId);
+                } else if (ev.event === 'token') {
+                  const chunk = typeof data === 'string' ? data : String(data?.text ?? data?.delta ?? '');
+                  if (!chunk) return;
+                  streamed += chunk;
+                  setStreamingReply(true);
+                  showReply(streamed);
+                } else if (ev.event === 'pulse' && asRecord(data)) {
+                  pulses.push(data as Pulse);
+                  setLiveActivity((prev) => [...prev, formatPulses([data as Pulse])]);
+                } else if (ev.event === 'tool_call') {
+                  setLiveActivity((prev) => [...prev, describeToolCall(data)]);
+                } else if (ev.event === 'approval') {
+                  drafts.push(...normalizeApprovals([data]));
+                } else if (ev.event === 'action') {
+                  actions.push(data);
+                } else if (ev.event === 'done') {
+                  final = (asRecord(data) as AgentResponse | null) ?? {};
+                } else if (ev.event === 'error') {
+                  streamError = String(data?.error || data?.detail || data || 'Stream failed');
+                }
+              });
+            } catch (err) {
+              if (!controller.signal.aborted) throw err;
+              showReply(`${streamed}${streamed ? '\n\n' : ''}⏹ Stopped.`);
+              return;
+            }
+
+            const done = final as AgentResponse | null;
+            if (streamError) {
+              throw new Error(`AI request failed.\nEndpoint: ${endpoint}\nerror: ${streamError}`);
+            }
+            if (done?.correlationId && typeof done.correlationId === 'string') {
+              runId = done.correlationId;
+              setLastCorrelationId(done.correlationId);
+            }
+            const queued = [...drafts, ...normalizeApprovals(done?.approvals)];
+            const reply = done?.reply || streamed;
+            if (reply || queued.length === 0) showReply(reply || 'Done.');
+            const allPulses = Array.isArray(done?.pulses) && done.pulses.length > 0 ? done.pulses : pulses;
+            if (allPulses.length > 0) {
+              setMessages((prev) => [
+                ...prev,
+                { role: 'assistant', content: `Pulse:\n${formatPulses(allPulses)}`, at, ...(runId ? { correlationId: runId } : {}) },
+              ]);
+            }
+            await runClientActions([...actions, ...(Array.isArray(done?.actions) ? done.actions : [])], runId);
+            if (queued.length > 0) enqueueApprovals(queued);
+            return;
+          }
 
-        if (agentRes.ok && agentData?.reply) {
-          if (agentData?.correlationId && typeof agentData.correlationId === 'string') {
-            setLastCorrelationId(agentData.correlationId);
+          const body = await readResponseBody(agentRes);
+          const agentData = (body.json as AgentResponse | null) ?? null;
+          const queued = normalizeApprovals(agentData?.approvals);
+          const actions = Array.isArray(agentData?.actions) ? agentData.actions : [];
+
+          if (agentRes.ok && (agentData?.reply || queued.length > 0 || actions.length > 0)) {
+            const runId = typeof agentData?.correlationId === 'string' && agentData.correlationId ? agentData.correlationId : null;
+            if (runId) setLastCorrelationId(runId);
+            const meta = { at: new Date().toISOString(), ...(runId ? { correlationId: runId } : {}) };
+            if (agentData?.reply) {
+              setMessages((prev) => [...prev, { role: 'assistant', content: agentData.reply || 'Done.', ...meta }]);
+            }
+            if (Array.isArray(agentData?.pulses) && agentData.pulses.length > 0) {
+              setMessages((prev) => [
+                ...prev,
+                { role: 'assistant', content: `Pulse:\n${formatPulses(agentData.pulses!)}`, ...meta },
+              ]);
+            }
+            await runClientActions(actions, runId);
+            if (queued.length > 0) enqueueApprovals(queued);
+            return;
           }
-          setPendingApproval(null);
-          setMessages((prev) => [...prev, { role: 'assistant', content: agentData.reply || 'Done.' }]);
-          if (Array.isArray(agentData.pulses) && agentData.pulses.length > 0) {
-            const pulseText = agentData.pulses
-              .map((p) => `- ${String(p.actor || 'unknown')}: ${String(p.kind || 'event')} — ${String(p.message || '')}`)
-              .join('\n');
-            setMessages((prev) => [...prev, { role: 'assistant', content: `Pulse:\n${pulseText}` }]);
+
+          // Build a more actionable error message for debugging.
+          const statusLine = `HTTP ${agentRes.status}${agentRes.statusText ? ` ${agentRes.statusText}` : ''}`;
+          const correlationId = (agentData as any)?.correlationId ? String((agentData as any).correlationId) : null;
+          const serverError = (agentData as any)?.error || (agentData as any)?.detail || (agentData as any)?.message || null;
+
+          const details: string[] = [];
+          details.push(`Endpoint: ${endpoint}`);
+          details.push(`Status: ${statusLine}`);
+          if (correlationId) details.push(`correlationId: ${correlationId}`);
+          if (serverError) details.push(`error: ${String(serverError)}`);
+
+          // Include a small body snippet (useful when proxy returns HTML or non-JSON).
+          if (!agentData && body.text) {
+            details.push(`response (text):\n${truncateText(body.text)}`);
+          } else if ((agentData as any)?.debug) {
+            details.push(`debug:\n${safeJsonStringify((agentData as any).debug)}`);
           }
+
+          throw new Error(`AI request failed.\n${details.join('\n')}`);
+        } catch (err) {
+          // Preserve the *real* error (network error, non-JSON body, 401/403/500, etc.)
+          // so the user sees actionable debug details instead of a generic message.
+          if (err instanceof Error) throw err;
+          const fallback =
+            safeJsonStringify(err) ||
+            (typeof err === 'string' ? err : '') ||
+            String(err);
+          throw new Error(
+            `AI request failed.\nEndpoint: /api/proxy/ai/hit/ai/chat\nerror: ${fallback}`
+          );
+        }
+      } catch (e) {
+        if (controller.signal.aborted) {
+          setMessages((prev) => [...prev, { role: 'assistant', content: '⏹ Stopped.' }]);
           return;
         }
+        const msg = e instanceof Error ? e.message : 'Failed to send message.';
+        setMessages((prev) => [
+          ...prev,
+          {
+            role: 'assistant',
+            content: `I couldn't process that.\n\n${msg}`,
+          },
+        ]);
+      } finally {
+        setLoading(false);
+        setActiveRequest(null);
+        setLiveActivity([]);
+        setStreamingReply(false);
+        // Refocus the input after sending
+        if (open && inputRef.current) {
+          // Use setTimeout to ensure the DOM has updated
+          setTimeout(() => {
+            inputRef.current?.focus();
+          }, 0);
+        }
+      }
+    },
+    [authToken, context, enqueueApprovals, open, runClientActions]
+  );
+
+  // Once every queued draft is approved or declined, hand the outcomes back to the agent.
+  const settleApproval = useCallback(
+    (outcome: ApprovalOutcome, note: string) => {
+      const fromAgent = approvalQueue[0]?.source !== 'command';
+      const results = fromAgent ? [...approvalResultsRef.current, outcome] : approvalResultsRef.current;
+      const remaining = approvalQueue.slice(1);
+      setApprovalQueue(remaining);
+      const noteMessage: ChatMessage = {
+        role: 'assistant',
+        content: note,
+        at: new Date().toISOString(),
+        approval: outcome,
+        ...(fromAgent && lastCorrelationId ? { correlationId: lastCorrelationId } : {}),
+      };
+      setMessages((prev) => [...prev, noteMessage]);
+      if (remaining.length > 0) {
+        approvalResultsRef.current = results;
+        return;
+      }
+      approvalResultsRef.current = [];
+      if (results.length === 0) return;
+      const history: ChatMessage[] = [...messagesRef.current, noteMessage].slice(-16);
+      void runAgentTurn({ message: '', history, resume: { correlationId: lastCorrelationId, results } });
+    },
+    [approvalQueue, lastCorrelationId, runAgentTurn]
+  );
 
-        // Build a more actionable error message for debugging.
-        const statusLine = `HTTP ${agentRes.status}${agentRes.statusText ? ` ${agentRes.statusText}` : ''}`;
-        const correlationId = (agentData as any)?.correlationId ? String((agentData as any).correlationId) : null;
-        const serverError = (agentData as any)?.error || (agentData as any)?.detail || (agentData as any)?.message || null;
-
-        const details: string[] = [];
-        details.push(`Endpoint: ${endpoint}`);
-        details.push(`Status: ${statusLine}`);
-        if (correlationId) details.push(`correlationId: ${correlationId}`);
-        if (serverError) details.push(`error: ${String(serverError)}`);
-
-        // Include a small body snippet (useful when proxy returns HTML or non-JSON).
-        if (!agentData && body.text) {
-          details.push(`response (text):\n${truncateText(body.text)}`);
-        } else if ((agentData as any)?.debug) {
-          details.push(`debug:\n${safeJsonStringify((agentData as any).debug)}`);
+  const runApproval = useCallback(async (approvedInput?: Record<string, any>) => {
+    if (!pendingApproval) return;
+    const toolName = pendingApproval.toolName;
+    const token = authToken || getStoredToken();
+    const execute = async (toolInput: Record<string, any>) => {
+      const res = await fetch('/api/ai/execute', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ toolName, input: toolInput, correlationId: lastCorrelationId }),
+      });
+      return { res, data: await res.json().catch(() => null) };
+    };
+
+    let runInput = approvedInput ?? pendingApproval.input;
+    let outcome: ApprovalOutcome;
+    let note: string;
+    setLoading(true);
+    try {
+      let executed: { res: Response; data: any } | null = null;
+      if (JSON.stringify(runInput) !== JSON.stringify(pendingApproval.input)) {
+        // Approval tokens are bound to the exact draft, so an edited draft is
+        // submitted again for a fresh one (or runs directly if policy auto-approves it).
+        const { approvalToken: _token, approvalId: _id, approved: _approved, ...edited } = runInput;
+        const redraft = await execute(edited);
+        if ((redraft.data as any)?.requiresApproval && asRecord((redraft.data as any)?.draft?.input)) {
+          runInput = (redraft.data as any).draft.input;
+        } else {
+          runInput = edited;
+          executed = redraft;
         }
+      }
+      let { res, data } = executed ?? (await execute({ ...runInput, approved: true }));
+      if ((data as any)?.requiresApproval && asRecord((data as any)?.draft?.input)) {
+        // Drafts queued without a token (e.g. from /run) are issued one on first submit;
+        // the user has already approved this card, so redeem it right away.
+        runInput = (data as any).draft.input;
+        ({ res, data } = await execute({ ...runInput, approved: true }));
+      }
 
-        throw new Error(`AI request failed.\n${details.join('\n')}`);
-      } catch (err) {
-        // Preserve the *real* error (network error, non-JSON body, 401/403/500, etc.)
-        // so the user sees actionable debug details instead of a generic message.
-        if (err instanceof Error) throw err;
-        const fallback =
-          safeJsonStringify(err) ||
-          (typeof err === 'string' ? err : '') ||
-          String(err);
-        throw new Error(
-          `AI request failed.\nEndpoint: /api/proxy/ai/hit/ai/chat\nerror: ${fallback}`
+      const denial = formatPolicyDenial(data);
+      if (denial) {
+        outcome = { toolName, input: runInput, status: 'denied', result: data };
+        note = denial;
+      } else if ((data as any)?.code === 'two_person_approval_pending') {
+        outcome = { toolName, input: runInput, status: 'awaiting_second_approver', result: data };
+        note = `⏳ Waiting for a second approver (approval id: ${String((data as any).approvalId || runInput.approvalId || '')}).`;
+      } else if (!res.ok) {
+        throw new Error((data as any)?.error || res.statusText);
+      } else {
+        // IMPORTANT: Approved writes execute *outside* the agent loop.
+        // If we don't fold the execution result back into aiState, the next user turn
+        // has no reliable anchor (IDs/keys) and follow-up "oops/update it" requests become flaky.
+        aiStateRef.current = updateAiStateFromApproval(
+          aiStateRef.current || {},
+          toolName,
+          runInput,
+          data,
         );
+        outcome = { toolName, input: runInput, status: 'executed', result: data };
+        note = toolName === 'http.request' ? summarizeHttpResult(runInput, data) : summarizeBulkResult(data);
       }
     } catch (e) {
-      const msg = e instanceof Error ? e.message : 'Failed to send message.';
+      const msg = e instanceof Error ? e.message : 'Failed to run approval.';
+      outcome = { toolName, input: runInput, status: 'failed', result: { error: msg } };
+      note = `⚠️ ${msg}`;
+    }
+    // Settle after clearing the busy state: it may start the resumed agent turn.
+    setLoading(false);
+    settleApproval(outcome, note);
+  }, [authToken, lastCorrelationId, pendingApproval, settleApproval]);
+
+  const declineApproval = useCallback(() => {
+    if (!pendingApproval) return;
+    settleApproval(
+      { toolName: pendingApproval.toolName, input: pendingApproval.input, status: 'declined', result: null },
+      '✋ Declined; nothing was changed.'
+    );
+  }, [pendingApproval, settleApproval]);
+
+  // Exports read the stored copy, so flush the latest transcript first.
+  const flushConversation = useCallback(async (): Promise<string | null> => {
+    await saveChainRef.current;
+    const id = conversationIdRef.current;
+    if (id) await updateConversation(id, { messages: messagesRef.current });
+    return id;
+  }, []);
+
+  const exportConversation = useCallback(
+    async (format: ExportFormat) => {
+      setExportOpen(false);
+      try {
+        const id = await flushConversation();
+        if (!id) return;
+        await downloadConversation(id, format);
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : 'Failed to export conversation.';
+        setMessages((prev) => [...prev, { role: 'assistant', content: `⚠️ ${msg}` }]);
+      }
+    },
+    [flushConversation]
+  );
+
+  const copyShareLink = useCallback(async () => {
+    setExportOpen(false);
+    try {
+      const id = await flushConversation();
+      if (!id) return;
+      const share = await shareConversation(id);
+      const link = `${window.location.origin}${share.url}`;
+      let copied = false;
+      try {
+        await navigator.clipboard.writeText(link);
+        copied = true;
+      } catch {
+        // clipboard unavailable (e.g. insecure context); show the link instead
+      }
+      const expires = new Date(share.expiresAt).toLocaleDateString();
       setMessages((prev) => [
         ...prev,
         {
           role: 'assistant',
-          content: `I couldn't process that.\n\n${msg}`,
+          content: `${copied ? 'Share link copied' : 'Share link'} (admins only, expires ${expires}):\n${link}`,
         },
       ]);
-    } finally {
-      setLoading(false);
-      // Refocus the input after sending
-      if (open && inputRef.current) {
-        // Use setTimeout to ensure the DOM has updated
-        setTimeout(() => {
-          inputRef.current?.focus();
-        }, 0);
-      }
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : 'Failed to create share link.';
+      setMessages((prev) => [...prev, { role: 'assistant', content: `⚠️ ${msg}` }]);
     }
-  }, [context, input, loading, messages, open]);
+  }, [flushConversation]);
+
+  // Rating controls go under the last message of each agent run.
+  const feedbackTargets = useMemo(() => {
+    const lastByRun = new Map<string, number>();
+    messages.forEach((m, i) => {
+      if (m.role === 'assistant' && m.correlationId) lastByRun.set(m.correlationId, i);
+    });
+    return new Set(lastByRun.values());
+  }, [messages]);
+
+  const rateRun = useCallback(
+    async (correlationId: string, feedback: { rating: FeedbackRating; reason: FeedbackReason | null; comment: string }) => {
+      await sendFeedback({
+        correlationId,
+        rating: feedback.rating,
+        reason: feedback.reason,
+        comment: feedback.comment || undefined,
+        conversationId: conversationIdRef.current,
+      });
+      setMessages((prev) => prev.map((m) => (m.correlationId === correlationId ? { ...m, feedback: feedback.rating } : m)));
+    },
+    []
+  );
 
   const fetchTrace = useCallback(async () => {
     const cid = lastCorrelationId;
@@ -566,6 +1183,91 @@ export function AiOverlay(props: {
     }
   }, [authToken, lastCorrelationId]);
 
+  const runSlashCommand = useCallback(
+    async (command: SlashCommand, args: string) => {
+      setInput('');
+      const reply = (content: string) => setMessages((prev) => [...prev, { role: 'assistant', content }]);
+      const ctx: SlashCommandContext = {
+        args,
+        pathname: currentPathname,
+        user: props.user ?? null,
+        reply,
+        newChat: () => {
+          activeRequest?.abort();
+          showConversation(null, null);
+        },
+        loadTrace: async () => {
+          if (!lastCorrelationId) return reply('No agent run to trace yet.');
+          await fetchTrace();
+        },
+        exportConversation: async (format) => {
+          if (!conversationIdRef.current) return reply('Nothing to export yet; send a message first.');
+          await exportConversation(format);
+        },
+        proposeRequest: (draft) => enqueueApprovals([{ ...draft, source: 'command' }]),
+        fetchJson: (url, init) => authedJson(url, { ...init, token: authToken }),
+      };
+      try {
+        await command.run(ctx);
+      } catch (e) {
+        reply(`⚠️ /${command.name} failed: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    },
+    [
+      activeRequest,
+      authToken,
+      currentPathname,
+      enqueueApprovals,
+      exportConversation,
+      fetchTrace,
+      lastCorrelationId,
+      props.user,
+      showConversation,
+    ]
+  );
+  runSlashCommandRef.current = runSlashCommand;
+
+  const send = useCallback(async () => {
+    const text = input.trim();
+    if (!text || loading) return;
+
+    const slash = parseSlashInput(text);
+    if (slash) {
+      const command = slashCommands.find((c) => c.name === slash.name);
+      if (command) return runSlashCommand(command, slash.args);
+      const skill = skills.find((sk) => sk.name === slash.name);
+      if (skill && !slash.args) {
+        return pickSlashItem({ key: skill.id, label: `/${skill.name}` });
+      }
+      setMessages((prev) => [
+        ...prev,
+        { role: 'assistant', content: `Unknown command \`/${slash.name}\`. Type \`/help\` for the list.` },
+      ]);
+      return;
+    }
+
+    setInput('');
+    setMessages((prev) => [...prev, { role: 'user', content: text, at: new Date().toISOString() }]);
+    // A new message supersedes any drafts still waiting for approval.
+    setApprovalQueue([]);
+    approvalResultsRef.current = [];
+
+    await runAgentTurn({ message: text, history: messages.slice(-16) });
+  }, [input, loading, messages, pickSlashItem, runAgentTurn, runSlashCommand, skills, slashCommands]);
+
+  const menuItemStyle: React.CSSProperties = {
+    display: 'block',
+    width: '100%',
+    textAlign: 'left',
+    border: 'none',
+    borderRadius: 6,
+    background: 'transparent',
+    color: 'inherit',
+    cursor: 'pointer',
+    fontSize: 12,
+    padding: '6px 8px',
+  };
+
   const containerStyle: React.CSSProperties = {
     position: 'fixed',
     right: 16,
@@ -602,6 +1304,24 @@ export function AiOverlay(props: {
     flexDirection: 'column',
   };
 
+  // Notices from agent `toast` actions; top-right so they never sit under the open panel.
+  const toastStackStyle: React.CSSProperties = {
+    position: 'fixed',
+    top: 16,
+    right: 16,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 8,
+    width: 'min(360px, calc(100vw - 32px))',
+  };
+
+  const toastAccent: Record<ToastVariant, string> = {
+    info: '#3b82f6',
+    success: '#22c55e',
+    warning: '#f59e0b',
+    error: '#ef4444',
+  };
+
   const overlayCss = `\n    .hit-ai-input::placeholder { color: var(--hit-input-placeholder, var(--hit-muted-foreground, #9ca3af)); }\n    .hit-ai-input:disabled { opacity: 0.7; cursor: not-allowed; }\n    .hit-ai-send:disabled { opacity: 0.6; cursor: not-allowed; }\n  `;
 
   // If not authenticated, do not render anything (no button, no panel).
@@ -612,6 +1332,16 @@ export function AiOverlay(props: {
       {open && (
         <div style={panelStyle}>
           <style>{overlayCss}</style>
+          {historyOpen && (
+            <ConversationHistory
+              currentId={conversationId}
+              onSelect={openConversation}
+              onDeleted={(id) => {
+                if (id === conversationIdRef.current) showConversation(null, null);
+              }}
+              onClose={() => setHistoryOpen(false)}
+            />
+          )}
           <div
             style={{
               display: 'flex',
@@ -649,15 +1379,84 @@ export function AiOverlay(props: {
                   {traceLoading ? 'Trace…' : 'Trace'}
                 </button>
               )}
+              <div style={{ position: 'relative' }}>
+                <button
+                  onClick={() => setExportOpen((v) => !v)}
+                  disabled={!conversationId}
+                  style={{
+                    borderRadius: 10,
+                    border: '1px solid var(--hit-border, rgba(255,255,255,0.25))',
+                    background: exportOpen ? 'rgba(255,255,255,0.12)' : 'transparent',
+                    color: 'inherit',
+                    cursor: conversationId ? 'pointer' : 'not-allowed',
+                    fontSize: 12,
+                    fontWeight: 700,
+                    padding: '6px 10px',
+                    opacity: conversationId ? 1 : 0.5,
+                  }}
+                  aria-label="Export conversation"
+                  aria-expanded={exportOpen}
+                  title={conversationId ? 'Export conversation' : 'Send a message first'}
+                >
+                  Export
+                </button>
+                {exportOpen && conversationId && (
+                  <div
+                    role="menu"
+                    style={{
+                      position: 'absolute',
+                      top: '100%',
+                      right: 0,
+                      marginTop: 4,
+                      zIndex: 3,
+                      minWidth: 160,
+                      borderRadius: 10,
+                      border: '1px solid var(--hit-border, rgba(255,255,255,0.25))',
+                      background: 'var(--hit-surface, rgba(17,17,17,0.98))',
+                      boxShadow: '0 8px 24px rgba(0,0,0,0.25)',
+                      padding: 4,
+                    }}
+                  >
+                    {(
+                      [
+                        ['markdown', 'Markdown (.md)'],
+                        ['json', 'JSON'],
+                        ['html', 'Printable HTML'],
+                      ] as Array<[ExportFormat, string]>
+                    ).map(([format, label]) => (
+                      <button key={format} role="menuitem" onClick={() => exportConversation(format)} style={menuItemStyle}>
+                        {label}
+                      </button>
+                    ))}
+                    {props.user?.roles?.includes('admin') && (
+                      <button role="menuitem" onClick={copyShareLink} style={menuItemStyle}>
+                        Copy share link
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={() => setHistoryOpen((v) => !v)}
+                style={{
+                  borderRadius: 10,
+                  border: '1px solid var(--hit-border, rgba(255,255,255,0.25))',
+                  background: historyOpen ? 'rgba(255,255,255,0.12)' : 'transparent',
+                  color: 'inherit',
+                  cursor: 'pointer',
+                  fontSize: 12,
+                  fontWeight: 700,
+                  padding: '6px 10px',
+                }}
+                aria-label="Conversation history"
+              >
+                History
+              </button>
               <button
                 onClick={() => {
-                  try {
-                    if (typeof window !== 'undefined') window.localStorage.removeItem(chatStorageKey);
-                  } catch {}
-                  setPendingApproval(null);
+                  activeRequest?.abort();
                   setInput('');
-                  setMessages(initialMessages);
-                  setLastCorrelationId(null);
+                  showConversation(null, null);
                 }}
                 style={{
                   borderRadius: 10,
@@ -699,16 +1498,39 @@ export function AiOverlay(props: {
                   maxWidth: '85%',
                   padding: '10px 10px',
                   borderRadius: 12,
-                  whiteSpace: 'pre-wrap',
+                  whiteSpace: m.role === 'user' ? 'pre-wrap' : 'normal',
                   border: '1px solid var(--hit-border, rgba(255,255,255,0.12))',
                   background: m.role === 'user' ? 'rgba(59,130,246,0.25)' : 'rgba(255,255,255,0.06)',
                 }}
               >
-                <div style={{ fontSize: 13, lineHeight: 1.4 }}>{m.content}</div>
+                <div style={{ fontSize: 13, lineHeight: 1.4 }}>
+                  {m.role === 'user' ? m.content : <Markdown text={m.content} />}
+                </div>
+                {m.role === 'user' && (
+                  <button
+                    onClick={() => saveAsSkill(m.content)}
+                    style={{
+                      border: 'none',
+                      background: 'transparent',
+                      color: 'inherit',
+                      cursor: 'pointer',
+                      fontSize: 11,
+                      opacity: 0.6,
+                      padding: 0,
+                      marginTop: 4,
+                    }}
+                    title="Save as a reusable /command"
+                  >
+                    Save as skill
+                  </button>
+                )}
+                {m.correlationId && feedbackTargets.has(idx) && !(loading && idx === messages.length - 1) && (
+                  <MessageFeedback value={m.feedback} onSubmit={(feedback) => rateRun(m.correlationId!, feedback)} />
+                )}
               </div>
             ))}
 
-            {loading && (
+            {loading && (!streamingReply || liveActivity.length > 0) && (
               <div
                 style={{
                   alignSelf: 'flex-start',
@@ -720,71 +1542,20 @@ export function AiOverlay(props: {
                   background: 'rgba(255,255,255,0.06)',
                 }}
               >
-                <div style={{ fontSize: 13, lineHeight: 1.4, opacity: 0.9 }}>Thinking…</div>
+                <div style={{ fontSize: 13, lineHeight: 1.4, opacity: 0.9 }}>
+                  {liveActivity.length > 0 ? liveActivity.slice(-4).join('\n') : 'Thinking…'}
+                </div>
               </div>
             )}
 
             {pendingApproval && (
-              <div
-                style={{
-                  border: '1px solid rgba(245, 158, 11, 0.5)',
-                  borderRadius: 12,
-                  padding: 10,
-                  background: 'rgba(245, 158, 11, 0.06)',
-                }}
-              >
-                <div style={{ fontWeight: 700, marginBottom: 6 }}>Approval required</div>
-                <pre
-                  style={{
-                    margin: 0,
-                    whiteSpace: 'pre-wrap',
-                    fontSize: 12,
-                    lineHeight: 1.35,
-                    fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, Liberation Mono, Courier New, monospace',
-                    color: 'var(--hit-foreground, #0f172a)',
-                    background: 'var(--hit-surface, #fff)',
-                    border: '1px solid var(--hit-border, rgba(0,0,0,0.12))',
-                    borderRadius: 10,
-                    padding: 10,
-                  }}
-                >
-                  {JSON.stringify(pendingApproval, null, 2)}
-                </pre>
-                <div style={{ display: 'flex', gap: 8, marginTop: 10, justifyContent: 'flex-end' }}>
-                  <button
-                    onClick={() => setPendingApproval(null)}
-                    style={{
-                      borderRadius: 10,
-                      border: '1px solid var(--hit-border, #e2e8f0)',
-                      background: 'transparent',
-                      color: 'var(--hit-foreground, #0f172a)',
-                      padding: '0 12px',
-                      height: 36,
-                      cursor: 'pointer',
-                      fontWeight: 700,
-                    }}
-                  >
-                    Cancel
-                  </button>
-                  <button
-                    onClick={runApproval}
-                    disabled={loading}
-                    style={{
-                      borderRadius: 10,
-                      border: '1px solid var(--hit-primary, #3b82f6)',
-                      background: 'var(--hit-primary-light, rgba(59,130,246,0.12))',
-                      color: 'var(--hit-foreground, #0f172a)',
-                      padding: '0 12px',
-                      height: 36,
-                      cursor: loading ? 'wait' : 'pointer',
-                      fontWeight: 700,
-                      opacity: loading ? 0.6 : 1,
-                    }}
-                  >
-                    Approve & Run
-                  </button>
-                </div>
-              </div>
+              <ApprovalCard
+                approval={pendingApproval}
+                position={{ index: 1, total: approvalQueue.length }}
+                busy={loading}
+                onApprove={runApproval}
+                onDecline={declineApproval}
+              />
             )}
 
             <div ref={bottomRef} />
@@ -792,24 +1563,59 @@ export function AiOverlay(props: {
 
           <div
             style={{
+              position: 'relative',
               padding: 12,
               borderTop: '1px solid var(--hit-border, rgba(255,255,255,0.12))',
               display: 'flex',
               gap: 8,
             }}
           >
+            {activeSkill ? (
+              <SkillVariablesForm
+                skill={activeSkill}
+                onInsert={(text) => {
+                  setActiveSkill(null);
+                  setInput(text);
+                  inputRef.current?.focus();
+                }}
+                onCancel={() => {
+                  setActiveSkill(null);
+                  inputRef.current?.focus();
+                }}
+              />
+            ) : (
+              <SlashMenu items={slashItems} activeIndex={slashIndex} onPick={pickSlashItem} onHover={setSlashIndex} />
+            )}
             <input
               ref={inputRef}
               type="text"
               value={input}
               onChange={(e) => setInput(e.target.value)}
               onKeyDown={(e) => {
+                if (slashItems.length > 0) {
+                  if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                    e.preventDefault();
+                    const step = e.key === 'ArrowDown' ? 1 : -1;
+                    setSlashIndex((i) => (i + step + slashItems.length) % slashItems.length);
+                    return;
+                  }
+                  if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) {
+                    e.preventDefault();
+                    pickSlashItem(slashItems[Math.min(slashIndex, slashItems.length - 1)]);
+                    return;
+                  }
+                  if (e.key === 'Escape') {
+                    e.stopPropagation();
+                    setSlashDismissed(input);
+                    return;
+                  }
+                }
                 if (e.key === 'Enter' && !e.shiftKey) {
                   e.preventDefault();
                   send();
                 }
               }}
-              placeholder="Ask me to do something…"
+              placeholder="Ask me to do something… (type / for commands)"
               className="hit-ai-input"
               style={{
                 flex: 1,
@@ -824,23 +1630,42 @@ export function AiOverlay(props: {
               }}
               disabled={loading}
             />
-            <button
-              onClick={send}
-              disabled={loading || !input.trim()}
-              className="hit-ai-send"
-              style={{
-                borderRadius: 10,
-                border: '1px solid var(--hit-primary, #3b82f6)',
-                background: 'var(--hit-primary-light, rgba(59,130,246,0.12))',
-                color: 'var(--hit-foreground, #0f172a)',
-                padding: '0 14px',
-                height: 44,
-                cursor: loading ? 'wait' : 'pointer',
-                fontWeight: 700,
-              }}
-            >
-              {loading ? 'Sending…' : 'Send'}
-            </button>
+            {activeRequest ? (
+              <button
+                onClick={() => activeRequest.abort()}
+                style={{
+                  borderRadius: 10,
+                  border: '1px solid var(--hit-border, #e2e8f0)',
+                  background: 'transparent',
+                  color: 'var(--hit-foreground, #0f172a)',
+                  padding: '0 14px',
+                  height: 44,
+                  cursor: 'pointer',
+                  fontWeight: 700,
+                }}
+                aria-label="Stop generating"
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={send}
+                disabled={loading || !input.trim()}
+                className="hit-ai-send"
+                style={{
+                  borderRadius: 10,
+                  border: '1px solid var(--hit-primary, #3b82f6)',
+                  background: 'var(--hit-primary-light, rgba(59,130,246,0.12))',
+                  color: 'var(--hit-foreground, #0f172a)',
+                  padding: '0 14px',
+                  height: 44,
+                  cursor: loading ? 'wait' : 'pointer',
+                  fontWeight: 700,
+                }}
+              >
+                {loading ? 'Sending…' : 'Send'}
+              </button>
+            )}
           </div>
 
           <div style={{ padding: '0 12px 12px', fontSize: 12, color: 'var(--hit-muted-foreground, rgba(255,255,255,0.65))' }}>
@@ -849,6 +1674,28 @@ export function AiOverlay(props: {
         </div>
       )}
 
+      {toasts.length > 0 && (
+        <div style={toastStackStyle} role="status" aria-live="polite">
+          {toasts.map((t) => (
+            <div
+              key={t.id}
+              style={{
+                padding: '10px 12px',
+                borderRadius: 10,
+                border: '1px solid var(--hit-border, rgba(255,255,255,0.15))',
+                borderLeft: `4px solid ${toastAccent[t.variant]}`,
+                background: 'var(--hit-surface, rgba(17,17,17,0.98))',
+                color: 'var(--hit-foreground, #fff)',
+                boxShadow: '0 10px 30px rgba(0,0,0,0.25)',
+                fontSize: 13,
+              }}
+            >
+              {t.message}
+            </div>
+          ))}
+        </div>
+      )}
+
       <button onClick={() => setOpen((v) => !v)} style={buttonStyle} aria-label="Toggle AI assistant">
         AI
       </button>
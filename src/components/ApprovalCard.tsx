@@ -0,0 +1,395 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { authedFetch } from './ai-client';
+
+// Approval card for drafts proposed by the agent. Instead of raw JSON it shows what
+// the call will do, using the dry-run preview from /api/ai/execute: the catalog
+// method, resolved path params, a field table (or before/after diff for updates)
+// and schema errors. Body fields can be edited inline; edits are re-validated by
+// another dry run before the user can approve.
+
+export type ApprovalDraft = {
+  toolName: string;
+  input: Record<string, any>;
+  approvalMode?: 'single' | 'two_person';
+  approvalId?: string;
+  expiresAt?: string;
+};
+
+type FieldChange = {
+  field: string;
+  change: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+};
+
+type StepPreview = {
+  method: string;
+  path: string;
+  methodName: string | null;
+  description: string | null;
+  pathParams: Record<string, string>;
+  valid: boolean;
+  errors: Array<{ path: string; message: string }>;
+  before: unknown;
+  after: unknown;
+  diff: FieldChange[];
+  beforeError?: string;
+};
+
+type Risk = 'read' | 'write' | 'delete' | 'bulk';
+
+const RISK_COLORS: Record<Risk, string> = {
+  read: '#16a34a',
+  write: '#d97706',
+  delete: '#dc2626',
+  bulk: '#7c3aed',
+};
+
+const mono = 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, Liberation Mono, Courier New, monospace';
+
+export function approvalRisk(draft: ApprovalDraft): Risk {
+  if (draft.toolName === 'http.bulk') return 'bulk';
+  const method = String(draft.input?.method || 'GET').toUpperCase();
+  if (method === 'GET') return 'read';
+  if (method === 'DELETE') return 'delete';
+  return 'write';
+}
+
+function draftSteps(input: Record<string, any>, toolName: string): Array<Record<string, any>> {
+  if (toolName === 'http.bulk') return Array.isArray(input.requests) ? input.requests : [];
+  return [input];
+}
+
+function formatValue(v: unknown): string {
+  if (v === undefined) return '—';
+  if (typeof v === 'string') return v;
+  try {
+    return JSON.stringify(v);
+  } catch {
+    return String(v);
+  }
+}
+
+function isEditable(v: unknown): boolean {
+  return v === null || v === undefined || ['string', 'number', 'boolean'].includes(typeof v);
+}
+
+async function fetchPreviews(toolName: string, input: Record<string, any>): Promise<StepPreview[]> {
+  const res = await authedFetch('/api/ai/execute', {
+    method: 'POST',
+    body: JSON.stringify({ toolName, input: { ...input, dryRun: true } }),
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) {
+    const issues = Array.isArray((data as any)?.issues) ? (data as any).issues : [];
+    const detail = issues.length
+      ? issues.map((i: any) => `${i.path}: ${i.message}`).join('; ')
+      : (data as any)?.error || res.statusText;
+    throw new Error(String(detail));
+  }
+  if (toolName === 'http.bulk') return Array.isArray((data as any)?.steps) ? (data as any).steps : [];
+  return (data as any)?.preview ? [(data as any).preview] : [];
+}
+
+function FieldInput(props: { value: unknown; disabled?: boolean; onChange: (v: unknown) => void }) {
+  const { value, disabled, onChange } = props;
+  const style: React.CSSProperties = {
+    width: '100%',
+    boxSizing: 'border-box',
+    borderRadius: 6,
+    border: '1px solid var(--hit-input-border, var(--hit-border, rgba(0,0,0,0.2)))',
+    background: 'var(--hit-input-bg, transparent)',
+    color: 'inherit',
+    fontSize: 12,
+    padding: '3px 6px',
+  };
+  if (typeof value === 'boolean') {
+    return <input type="checkbox" checked={value} disabled={disabled} onChange={(e) => onChange(e.target.checked)} />;
+  }
+  if (typeof value === 'number') {
+    return (
+      <input
+        type="number"
+        value={Number.isFinite(value) ? value : ''}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+        style={style}
+      />
+    );
+  }
+  return (
+    <input
+      type="text"
+      value={value == null ? '' : String(value)}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value)}
+      style={style}
+    />
+  );
+}
+
+export function ApprovalCard(props: {
+  approval: ApprovalDraft;
+  position?: { index: number; total: number };
+  busy?: boolean;
+  /** Called with the input to run; differs from `approval.input` when the user edited fields. */
+  onApprove: (input: Record<string, any>) => void;
+  onDecline: () => void;
+}) {
+  const { approval, busy } = props;
+  const [input, setInput] = useState<Record<string, any>>(approval.input);
+  const [previews, setPreviews] = useState<StepPreview[] | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [validating, setValidating] = useState(false);
+
+  useEffect(() => {
+    setInput(approval.input);
+  }, [approval]);
+
+  const edited = useMemo(() => JSON.stringify(input) !== JSON.stringify(approval.input), [approval.input, input]);
+
+  // Re-run the dry run whenever the (possibly edited) input changes.
+  useEffect(() => {
+    let cancelled = false;
+    setValidating(true);
+    const t = window.setTimeout(async () => {
+      try {
+        const next = await fetchPreviews(approval.toolName, input);
+        if (cancelled) return;
+        setPreviews(next);
+        setPreviewError(null);
+      } catch (e) {
+        if (cancelled) return;
+        setPreviews(null);
+        setPreviewError(e instanceof Error ? e.message : 'Could not preview this request');
+      } finally {
+        if (!cancelled) setValidating(false);
+      }
+    }, edited ? 400 : 0);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(t);
+    };
+  }, [approval.toolName, edited, input]);
+
+  const setBodyField = (stepIndex: number, key: string, value: unknown) => {
+    setInput((prev) => {
+      const patch = (step: Record<string, any>) => ({ ...step, body: { ...(step.body || {}), [key]: value } });
+      if (approval.toolName !== 'http.bulk') return patch(prev);
+      const requests = Array.isArray(prev.requests) ? prev.requests : [];
+      return { ...prev, requests: requests.map((r: any, i: number) => (i === stepIndex ? patch(r) : r)) };
+    });
+  };
+
+  const risk = approvalRisk(approval);
+  const steps = draftSteps(input, approval.toolName);
+  const invalid = Boolean(previewError) || Boolean(previews?.some((p) => !p.valid));
+
+  const cellStyle: React.CSSProperties = {
+    padding: '4px 6px',
+    borderTop: '1px solid var(--hit-border, rgba(127,127,127,0.2))',
+    verticalAlign: 'top',
+    wordBreak: 'break-word',
+  };
+
+  return (
+    <div
+      style={{
+        border: '1px solid rgba(245, 158, 11, 0.5)',
+        borderRadius: 12,
+        padding: 10,
+        background: 'rgba(245, 158, 11, 0.06)',
+        fontSize: 12,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 8 }}>
+        <div style={{ fontWeight: 700, fontSize: 13, flex: 1 }}>
+          Approval required
+          {props.position && props.position.total > 1 ? ` (${props.position.index} of ${props.position.total})` : ''}
+        </div>
+        <span
+          style={{
+            borderRadius: 999,
+            padding: '2px 8px',
+            fontWeight: 700,
+            fontSize: 11,
+            textTransform: 'uppercase',
+            color: '#fff',
+            background: RISK_COLORS[risk],
+          }}
+        >
+          {risk}
+        </span>
+      </div>
+      {approval.approvalMode === 'two_person' && (
+        <div style={{ marginBottom: 8, opacity: 0.85 }}>A second person must also approve this before it runs.</div>
+      )}
+
+      {steps.map((step, i) => {
+        const preview = previews?.[i] ?? null;
+        const method = String(step.method || 'GET').toUpperCase();
+        const body = step.body && typeof step.body === 'object' ? (step.body as Record<string, unknown>) : {};
+        const fieldErrors = new Map<string, string>();
+        for (const err of preview?.errors ?? []) {
+          const field = err.path.startsWith('body.') ? err.path.slice(5).split('.')[0] : err.path;
+          if (!fieldErrors.has(field)) fieldErrors.set(field, err.message);
+        }
+        const showDiff = (method === 'PUT' || method === 'PATCH' || method === 'DELETE') && Boolean(preview?.diff?.length);
+        const rows = showDiff
+          ? preview!.diff.map((d) => ({ field: d.field, before: d.before, after: d.after, change: d.change }))
+          : Object.entries(body).map(([field, value]) => ({ field, before: undefined, after: value, change: 'added' as const }));
+        const otherErrors = (preview?.errors ?? []).filter(
+          (e) => !e.path.startsWith('body.') || !rows.some((r) => r.field === e.path.slice(5).split('.')[0])
+        );
+
+        return (
+          <div
+            key={i}
+            style={{
+              borderRadius: 10,
+              border: '1px solid var(--hit-border, rgba(127,127,127,0.25))',
+              padding: 8,
+              marginBottom: 8,
+            }}
+          >
+            <div style={{ fontFamily: mono, fontWeight: 700 }}>
+              {method} {String(step.path || '')}
+            </div>
+            {preview?.methodName && <div style={{ marginTop: 2, opacity: 0.8 }}>{preview.methodName}</div>}
+            {preview?.description && <div style={{ marginTop: 4 }}>{preview.description}</div>}
+            {preview && Object.keys(preview.pathParams).length > 0 && (
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginTop: 6 }}>
+                {Object.entries(preview.pathParams).map(([k, v]) => (
+                  <span
+                    key={k}
+                    style={{ fontFamily: mono, borderRadius: 6, padding: '1px 6px', background: 'rgba(127,127,127,0.15)' }}
+                  >
+                    {k}: {v}
+                  </span>
+                ))}
+              </div>
+            )}
+            {preview?.beforeError && (
+              <div style={{ marginTop: 6, opacity: 0.8 }}>Current values unavailable: {preview.beforeError}</div>
+            )}
+
+            {rows.length > 0 && (
+              <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 8 }}>
+                <thead>
+                  <tr style={{ textAlign: 'left', opacity: 0.75 }}>
+                    <th style={{ padding: '2px 6px' }}>Field</th>
+                    {showDiff && <th style={{ padding: '2px 6px' }}>Before</th>}
+                    <th style={{ padding: '2px 6px' }}>{showDiff ? 'After' : 'Value'}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => {
+                    const topKey = row.field.split('.')[0];
+                    const editable = method !== 'DELETE' && row.field === topKey && topKey in body && isEditable(body[topKey]);
+                    const error = fieldErrors.get(topKey);
+                    return (
+                      <tr key={row.field}>
+                        <td style={{ ...cellStyle, fontFamily: mono, whiteSpace: 'nowrap' }}>{row.field}</td>
+                        {showDiff && (
+                          <td style={{ ...cellStyle, textDecoration: row.change === 'added' ? undefined : 'line-through', opacity: 0.75 }}>
+                            {formatValue(row.before)}
+                          </td>
+                        )}
+                        <td style={cellStyle}>
+                          {editable ? (
+                            <FieldInput
+                              value={body[topKey]}
+                              disabled={busy}
+                              onChange={(v) => setBodyField(i, topKey, v)}
+                            />
+                          ) : (
+                            formatValue(row.after)
+                          )}
+                          {error && <div style={{ color: '#dc2626', marginTop: 2 }}>{error}</div>}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+
+            {otherErrors.length > 0 && (
+              <ul style={{ margin: '6px 0 0', paddingLeft: 16, color: '#dc2626' }}>
+                {otherErrors.map((e, k) => (
+                  <li key={k}>
+                    <span style={{ fontFamily: mono }}>{e.path || '(request)'}</span>: {e.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+
+      {previewError && <div style={{ color: '#dc2626', marginBottom: 8 }}>{previewError}</div>}
+
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center', justifyContent: 'flex-end' }}>
+        {validating && <span style={{ opacity: 0.7, marginRight: 'auto' }}>Checking…</span>}
+        {edited && !validating && <span style={{ opacity: 0.7, marginRight: 'auto' }}>Edited</span>}
+        {edited && (
+          <button
+            onClick={() => setInput(approval.input)}
+            disabled={busy}
+            style={{
+              borderRadius: 10,
+              border: 'none',
+              background: 'transparent',
+              color: 'inherit',
+              padding: '0 8px',
+              height: 36,
+              cursor: 'pointer',
+              fontWeight: 700,
+              opacity: 0.8,
+            }}
+          >
+            Reset
+          </button>
+        )}
+        <button
+          onClick={props.onDecline}
+          disabled={busy}
+          style={{
+            borderRadius: 10,
+            border: '1px solid var(--hit-border, #e2e8f0)',
+            background: 'transparent',
+            color: 'var(--hit-foreground, #0f172a)',
+            padding: '0 12px',
+            height: 36,
+            cursor: 'pointer',
+            fontWeight: 700,
+          }}
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => props.onApprove(input)}
+          disabled={busy || validating || invalid}
+          title={invalid ? 'Fix the highlighted fields first' : undefined}
+          style={{
+            borderRadius: 10,
+            border: '1px solid var(--hit-primary, #3b82f6)',
+            background: 'var(--hit-primary-light, rgba(59,130,246,0.12))',
+            color: 'var(--hit-foreground, #0f172a)',
+            padding: '0 12px',
+            height: 36,
+            cursor: busy ? 'wait' : 'pointer',
+            fontWeight: 700,
+            opacity: busy || validating || invalid ? 0.6 : 1,
+          }}
+        >
+          Approve & Run
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ApprovalCard;
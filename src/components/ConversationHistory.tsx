@@ -0,0 +1,186 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  deleteConversation,
+  listConversations,
+  updateConversation,
+  type ConversationSummary,
+} from './ai-conversations';
+
+// History sidebar for the AI overlay: the user's saved conversations, newest first,
+// with open / rename / delete.
+
+function formatWhen(iso: string): string {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  const sameDay = d.toDateString() === new Date().toDateString();
+  return sameDay ? d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : d.toLocaleDateString();
+}
+
+const smallButton: React.CSSProperties = {
+  border: 'none',
+  background: 'transparent',
+  color: 'inherit',
+  cursor: 'pointer',
+  fontSize: 11,
+  padding: '2px 4px',
+  opacity: 0.75,
+};
+
+export function ConversationHistory(props: {
+  currentId: string | null;
+  onSelect: (id: string) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [items, setItems] = useState<ConversationSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+
+  const refresh = useCallback(async (q: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await listConversations(q.trim() || undefined);
+      setItems(Array.isArray(data?.items) ? data.items : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load conversations');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const t = window.setTimeout(() => refresh(query), query ? 300 : 0);
+    return () => window.clearTimeout(t);
+  }, [query, refresh]);
+
+  const rename = async () => {
+    if (!renaming || !renaming.title.trim()) return setRenaming(null);
+    try {
+      const updated = await updateConversation(renaming.id, { title: renaming.title.trim() });
+      setItems((prev) => prev.map((c) => (c.id === updated.id ? { ...c, title: updated.title } : c)));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to rename conversation');
+    } finally {
+      setRenaming(null);
+    }
+  };
+
+  const remove = async (id: string) => {
+    if (typeof window !== 'undefined' && !window.confirm('Delete this conversation?')) return;
+    try {
+      await deleteConversation(id);
+      setItems((prev) => prev.filter((c) => c.id !== id));
+      props.onDeleted(id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to delete conversation');
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        inset: 0,
+        zIndex: 2,
+        display: 'flex',
+        flexDirection: 'column',
+        background: 'var(--hit-surface, rgba(17,17,17,0.98))',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, padding: 12 }}>
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search conversations…"
+          className="hit-ai-input"
+          style={{
+            flex: 1,
+            borderRadius: 8,
+            border: '1px solid var(--hit-input-border, var(--hit-border, #e2e8f0))',
+            padding: '0 10px',
+            height: 32,
+            background: 'var(--hit-input-bg, var(--hit-surface, #fff))',
+            color: 'var(--hit-foreground, #0f172a)',
+            outline: 'none',
+          }}
+        />
+        <button onClick={props.onClose} style={{ ...smallButton, fontSize: 18, opacity: 1 }} aria-label="Close history">
+          ×
+        </button>
+      </div>
+
+      <div style={{ flex: 1, overflow: 'auto', padding: '0 12px 12px' }}>
+        {error && <div style={{ color: '#dc2626', fontSize: 12, marginBottom: 8 }}>{error}</div>}
+        {loading && items.length === 0 && <div style={{ fontSize: 12, opacity: 0.7 }}>Loading…</div>}
+        {!loading && items.length === 0 && !error && (
+          <div style={{ fontSize: 12, opacity: 0.7 }}>{query ? 'No matching conversations.' : 'No saved conversations yet.'}</div>
+        )}
+        {items.map((c) => (
+          <div
+            key={c.id}
+            style={{
+              borderRadius: 10,
+              padding: '8px 10px',
+              marginBottom: 6,
+              border: '1px solid var(--hit-border, rgba(255,255,255,0.12))',
+              background: c.id === props.currentId ? 'rgba(59,130,246,0.18)' : 'rgba(255,255,255,0.04)',
+            }}
+          >
+            {renaming?.id === c.id ? (
+              <input
+                autoFocus
+                value={renaming.title}
+                onChange={(e) => setRenaming({ id: c.id, title: e.target.value })}
+                onBlur={rename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') rename();
+                  if (e.key === 'Escape') {
+                    e.stopPropagation();
+                    setRenaming(null);
+                  }
+                }}
+                style={{ width: '100%', boxSizing: 'border-box', fontSize: 13, padding: '2px 6px', borderRadius: 6 }}
+              />
+            ) : (
+              <div
+                role="button"
+                tabIndex={0}
+                onClick={() => props.onSelect(c.id)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ' ') props.onSelect(c.id);
+                }}
+                style={{ cursor: 'pointer' }}
+              >
+                <div style={{ fontWeight: 700, fontSize: 13, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {c.title}
+                </div>
+                <div style={{ fontSize: 12, opacity: 0.7, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {c.preview}
+                </div>
+              </div>
+            )}
+            <div style={{ display: 'flex', alignItems: 'center', gap: 4, marginTop: 4, fontSize: 11, opacity: 0.8 }}>
+              <span style={{ flex: 1 }}>
+                {formatWhen(c.updatedAt)} · {c.messageCount} message{c.messageCount === 1 ? '' : 's'}
+                {c.pathname ? ` · ${c.pathname}` : ''}
+              </span>
+              <button onClick={() => setRenaming({ id: c.id, title: c.title })} style={smallButton}>
+                Rename
+              </button>
+              <button onClick={() => remove(c.id)} style={smallButton}>
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default ConversationHistory;
@@ -0,0 +1,383 @@
+'use client';
+
+import React, { useState } from 'react';
+
+// Small markdown renderer for assistant messages.
+//
+// Supports headings, paragraphs, lists, blockquotes, rules, pipe tables, fenced
+// code blocks (with a copy button), **bold**, *italic*, `code` and links. It only
+// ever builds React elements from text, so raw HTML in a message is shown as text.
+// Links are rendered only for in-app routes ("/..."); anything else stays plain text.
+// JSON blocks longer than a few lines collapse into an expandable section.
+
+type Block =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'list'; ordered: boolean; items: string[] }
+  | { kind: 'quote'; text: string }
+  | { kind: 'rule' }
+  | { kind: 'code'; lang: string; text: string }
+  | { kind: 'json'; text: string }
+  | { kind: 'table'; header: string[]; align: Array<'left' | 'center' | 'right' | undefined>; rows: string[][] };
+
+const mono = 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, Liberation Mono, Courier New, monospace';
+const COLLAPSE_LINES = 12;
+
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const TABLE_SEP = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+
+function splitRow(line: string): string[] {
+  let s = line.trim();
+  if (s.startsWith('|')) s = s.slice(1);
+  if (s.endsWith('|') && !s.endsWith('\\|')) s = s.slice(0, -1);
+  const cells: string[] = [];
+  let cur = '';
+  for (let i = 0; i < s.length; i++) {
+    if (s[i] === '\\' && s[i + 1] === '|') {
+      cur += '|';
+      i++;
+    } else if (s[i] === '|') {
+      cells.push(cur.trim());
+      cur = '';
+    } else {
+      cur += s[i];
+    }
+  }
+  cells.push(cur.trim());
+  return cells;
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  return lines[i].includes('|') && i + 1 < lines.length && TABLE_SEP.test(lines[i + 1]) && lines[i + 1].includes('-');
+}
+
+/** Lines from `i` up to the next blank line, if they parse as one JSON object/array. */
+function jsonBlockAt(lines: string[], i: number): { text: string; end: number } | null {
+  const first = lines[i].trim();
+  if (!first.startsWith('{') && !first.startsWith('[')) return null;
+  let end = i;
+  while (end < lines.length && lines[end].trim() !== '') end++;
+  const text = lines.slice(i, end).join('\n');
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' ? { text, end } : null;
+  } catch {
+    return null;
+  }
+}
+
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    LIST_ITEM.test(line) ||
+    RULE.test(line) ||
+    line.trimStart().startsWith('>') ||
+    isTableStart(lines, i) ||
+    jsonBlockAt(lines, i) !== null
+  );
+}
+
+export function parseMarkdown(src: string): Block[] {
+  const lines = String(src ?? '').replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !(lines[i].trim().startsWith(fence[1]) && FENCE.test(lines[i]))) body.push(lines[i++]);
+      i++; // closing fence (or end of an unterminated, still-streaming block)
+      const lang = fence[2].toLowerCase();
+      blocks.push(lang === 'json' ? { kind: 'json', text: body.join('\n') } : { kind: 'code', lang, text: body.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ kind: 'heading', level: heading[1].length, text: heading[2].trim() });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ kind: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map((c) =>
+        c.startsWith(':') && c.endsWith(':') ? 'center' : c.endsWith(':') ? 'right' : c.startsWith(':') ? 'left' : undefined
+      );
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim() !== '') rows.push(splitRow(lines[i++]));
+      blocks.push({ kind: 'table', header, align, rows });
+      continue;
+    }
+
+    const json = jsonBlockAt(lines, i);
+    if (json) {
+      blocks.push({ kind: 'json', text: json.text });
+      i = json.end;
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const ordered = /^\s*\d/.test(line);
+      const items: string[] = [];
+      while (i < lines.length && lines[i].trim() !== '') {
+        const m = LIST_ITEM.exec(lines[i]);
+        if (m && /^\s*\d/.test(lines[i]) === ordered) items.push(m[2]);
+        else if (m || startsBlock(lines, i)) break;
+        else items[items.length - 1] += `\n${lines[i].trim()}`;
+        i++;
+      }
+      blocks.push({ kind: 'list', ordered, items });
+      continue;
+    }
+
+    if (line.trimStart().startsWith('>')) {
+      const body: string[] = [];
+      while (i < lines.length && lines[i].trimStart().startsWith('>')) body.push(lines[i++].trimStart().replace(/^>\s?/, ''));
+      blocks.push({ kind: 'quote', text: body.join('\n') });
+      continue;
+    }
+
+    const para: string[] = [line];
+    i++;
+    while (i < lines.length && lines[i].trim() !== '' && !startsBlock(lines, i)) para.push(lines[i++]);
+    blocks.push({ kind: 'paragraph', text: para.join('\n') });
+  }
+  return blocks;
+}
+
+/** Only same-app routes are clickable; protocol-relative and absolute URLs are not. */
+export function safeAppHref(href: string): string | null {
+  const h = href.trim();
+  if (!h.startsWith('/') || h.startsWith('//') || h.startsWith('/\\')) return null;
+  return h;
+}
+
+// Underscore emphasis must not start or end inside a word, so snake_case identifiers stay intact.
+const INLINE =
+  /(`+)([\s\S]*?)\1|\*\*([\s\S]+?)\*\*|(?<!\w)__([\s\S]+?)__(?!\w)|\*([^*\s][^*]*?)\*|(?<!\w)_([^_\s][^_]*?)_(?!\w)|\[([^\]]+)\]\(([^)\s]+)\)/;
+
+function renderInline(text: string, keyPrefix = 'i'): React.ReactNode[] {
+  const out: React.ReactNode[] = [];
+  let last = 0;
+  let n = 0;
+  const re = new RegExp(INLINE.source, 'g');
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) {
+    if (m.index > last) out.push(text.slice(last, m.index));
+    const key = `${keyPrefix}-${n++}`;
+    if (m[1]) {
+      out.push(
+        <code key={key} style={{ fontFamily: mono, fontSize: '0.92em', padding: '0 4px', borderRadius: 4, background: 'rgba(127,127,127,0.18)' }}>
+          {m[2]}
+        </code>
+      );
+    } else if (m[3] !== undefined || m[4] !== undefined) {
+      out.push(<strong key={key}>{renderInline(m[3] ?? m[4], key)}</strong>);
+    } else if (m[5] !== undefined || m[6] !== undefined) {
+      out.push(<em key={key}>{renderInline(m[5] ?? m[6], key)}</em>);
+    } else if (m[7] !== undefined) {
+      const href = safeAppHref(m[8]);
+      out.push(
+        href ? (
+          <a key={key} href={href} style={{ color: 'var(--hit-primary, #3b82f6)', textDecoration: 'underline' }}>
+            {renderInline(m[7], key)}
+          </a>
+        ) : (
+          <span key={key}>
+            {renderInline(m[7], key)} ({m[8]})
+          </span>
+        )
+      );
+    }
+    last = m.index + m[0].length;
+  }
+  if (last < text.length) out.push(text.slice(last));
+  return out;
+}
+
+function CopyButton(props: { text: string }) {
+  const [copied, setCopied] = useState(false);
+  return (
+    <button
+      onClick={async () => {
+        try {
+          await navigator.clipboard.writeText(props.text);
+          setCopied(true);
+          window.setTimeout(() => setCopied(false), 1500);
+        } catch {
+          // clipboard unavailable (insecure context)
+        }
+      }}
+      style={{
+        position: 'absolute',
+        top: 4,
+        right: 4,
+        borderRadius: 6,
+        border: '1px solid var(--hit-border, rgba(127,127,127,0.35))',
+        background: 'var(--hit-surface, rgba(17,17,17,0.9))',
+        color: 'inherit',
+        fontSize: 11,
+        padding: '1px 6px',
+        cursor: 'pointer',
+      }}
+      aria-label="Copy code"
+    >
+      {copied ? 'Copied' : 'Copy'}
+    </button>
+  );
+}
+
+function CodeBlock(props: { text: string; lang?: string }) {
+  return (
+    <div style={{ position: 'relative' }}>
+      <pre
+        style={{
+          margin: 0,
+          padding: '8px 10px',
+          paddingTop: 24,
+          borderRadius: 8,
+          overflowX: 'auto',
+          whiteSpace: 'pre',
+          fontFamily: mono,
+          fontSize: 12,
+          lineHeight: 1.35,
+          background: 'rgba(127,127,127,0.12)',
+          border: '1px solid var(--hit-border, rgba(127,127,127,0.25))',
+        }}
+      >
+        <code data-lang={props.lang || undefined}>{props.text}</code>
+      </pre>
+      <CopyButton text={props.text} />
+    </div>
+  );
+}
+
+function JsonBlock(props: { text: string }) {
+  let pretty = props.text;
+  try {
+    pretty = JSON.stringify(JSON.parse(props.text), null, 2);
+  } catch {
+    // still streaming or not quite JSON; show as-is
+  }
+  const lineCount = pretty.split('\n').length;
+  if (lineCount <= COLLAPSE_LINES) return <CodeBlock text={pretty} lang="json" />;
+  return (
+    <details>
+      <summary style={{ cursor: 'pointer', fontSize: 12, opacity: 0.85 }}>JSON ({lineCount} lines)</summary>
+      <div style={{ marginTop: 6 }}>
+        <CodeBlock text={pretty} lang="json" />
+      </div>
+    </details>
+  );
+}
+
+function renderBlock(block: Block, key: number): React.ReactNode {
+  switch (block.kind) {
+    case 'heading': {
+      const size = block.level <= 1 ? 16 : block.level === 2 ? 15 : 14;
+      return (
+        <div key={key} role="heading" aria-level={block.level} style={{ fontWeight: 700, fontSize: size }}>
+          {renderInline(block.text)}
+        </div>
+      );
+    }
+    case 'paragraph':
+      return (
+        <div key={key} style={{ whiteSpace: 'pre-wrap' }}>
+          {renderInline(block.text)}
+        </div>
+      );
+    case 'list': {
+      const items = block.items.map((item, i) => (
+        <li key={i} style={{ whiteSpace: 'pre-wrap' }}>
+          {renderInline(item)}
+        </li>
+      ));
+      const style: React.CSSProperties = { margin: 0, paddingLeft: 20 };
+      return block.ordered ? (
+        <ol key={key} style={style}>
+          {items}
+        </ol>
+      ) : (
+        <ul key={key} style={style}>
+          {items}
+        </ul>
+      );
+    }
+    case 'quote':
+      return (
+        <div
+          key={key}
+          style={{ whiteSpace: 'pre-wrap', borderLeft: '3px solid var(--hit-border, rgba(127,127,127,0.4))', paddingLeft: 8, opacity: 0.9 }}
+        >
+          {renderInline(block.text)}
+        </div>
+      );
+    case 'rule':
+      return <hr key={key} style={{ border: 'none', borderTop: '1px solid var(--hit-border, rgba(127,127,127,0.3))', margin: 0 }} />;
+    case 'code':
+      return <CodeBlock key={key} text={block.text} lang={block.lang} />;
+    case 'json':
+      return <JsonBlock key={key} text={block.text} />;
+    case 'table': {
+      const cell: React.CSSProperties = {
+        padding: '4px 8px',
+        border: '1px solid var(--hit-border, rgba(127,127,127,0.25))',
+        verticalAlign: 'top',
+      };
+      return (
+        <div key={key} style={{ overflowX: 'auto' }}>
+          <table style={{ borderCollapse: 'collapse', fontSize: 12 }}>
+            <thead>
+              <tr>
+                {block.header.map((h, i) => (
+                  <th key={i} style={{ ...cell, textAlign: block.align[i] ?? 'left', fontWeight: 700 }}>
+                    {renderInline(h)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r}>
+                  {block.header.map((_, c) => (
+                    <td key={c} style={{ ...cell, textAlign: block.align[c] ?? 'left' }}>
+                      {renderInline(row[c] ?? '')}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    }
+  }
+}
+
+export function Markdown(props: { text: string }) {
+  const blocks = parseMarkdown(props.text);
+  return <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>{blocks.map(renderBlock)}</div>;
+}
+
+export default Markdown;
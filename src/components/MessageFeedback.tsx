@@ -0,0 +1,131 @@
+'use client';
+
+import React, { useState } from 'react';
+import { FEEDBACK_REASON_LABELS, type FeedbackRating, type FeedbackReason } from './ai-feedback';
+
+// Thumbs up/down under an assistant reply. Picking a rating opens a short form for an
+// optional reason and comment; nothing is sent until the user confirms.
+
+const thumbButton = (active: boolean): React.CSSProperties => ({
+  border: '1px solid var(--hit-border, rgba(255,255,255,0.2))',
+  borderRadius: 999,
+  background: active ? 'rgba(59,130,246,0.25)' : 'transparent',
+  color: 'inherit',
+  cursor: 'pointer',
+  fontSize: 12,
+  lineHeight: '12px',
+  padding: '3px 7px',
+  opacity: active ? 1 : 0.7,
+});
+
+const chip = (active: boolean): React.CSSProperties => ({
+  border: '1px solid var(--hit-border, rgba(255,255,255,0.2))',
+  borderRadius: 999,
+  background: active ? 'rgba(239,68,68,0.25)' : 'transparent',
+  color: 'inherit',
+  cursor: 'pointer',
+  fontSize: 11,
+  padding: '2px 8px',
+});
+
+export function MessageFeedback(props: {
+  /** Rating already recorded for this run, if any. */
+  value?: FeedbackRating;
+  onSubmit: (feedback: { rating: FeedbackRating; reason: FeedbackReason | null; comment: string }) => Promise<void>;
+}) {
+  const [draft, setDraft] = useState<FeedbackRating | null>(null);
+  const [reason, setReason] = useState<FeedbackReason | null>(null);
+  const [comment, setComment] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pick = (rating: FeedbackRating) => {
+    setDraft((prev) => (prev === rating ? null : rating));
+    setReason(null);
+    setError(null);
+  };
+
+  const submit = async () => {
+    if (!draft) return;
+    try {
+      setSending(true);
+      setError(null);
+      await props.onSubmit({ rating: draft, reason, comment: comment.trim() });
+      setDraft(null);
+      setComment('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to send feedback');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const shown = draft ?? props.value;
+
+  return (
+    <div style={{ marginTop: 6, fontSize: 12 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+        <button onClick={() => pick('up')} style={thumbButton(shown === 'up')} aria-label="Good reply" aria-pressed={shown === 'up'}>
+          👍
+        </button>
+        <button
+          onClick={() => pick('down')}
+          style={thumbButton(shown === 'down')}
+          aria-label="Bad reply"
+          aria-pressed={shown === 'down'}
+        >
+          👎
+        </button>
+        {props.value && !draft && <span style={{ opacity: 0.6, fontSize: 11 }}>Thanks for the feedback</span>}
+      </div>
+
+      {draft && (
+        <div style={{ marginTop: 6, display: 'flex', flexDirection: 'column', gap: 6 }}>
+          {draft === 'down' && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4 }}>
+              {(Object.keys(FEEDBACK_REASON_LABELS) as FeedbackReason[]).map((r) => (
+                <button key={r} onClick={() => setReason(reason === r ? null : r)} style={chip(reason === r)} aria-pressed={reason === r}>
+                  {FEEDBACK_REASON_LABELS[r]}
+                </button>
+              ))}
+            </div>
+          )}
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') {
+                e.stopPropagation();
+                setDraft(null);
+              }
+            }}
+            rows={2}
+            maxLength={2000}
+            placeholder={draft === 'down' ? 'What went wrong? (optional)' : 'Anything to add? (optional)'}
+            style={{
+              resize: 'vertical',
+              borderRadius: 8,
+              border: '1px solid var(--hit-input-border, var(--hit-border, #e2e8f0))',
+              padding: '6px 8px',
+              background: 'var(--hit-input-bg, var(--hit-surface, #fff))',
+              color: 'var(--hit-foreground, #0f172a)',
+              fontSize: 12,
+              fontFamily: 'inherit',
+            }}
+          />
+          {error && <div style={{ color: '#dc2626', fontSize: 11 }}>{error}</div>}
+          <div style={{ display: 'flex', gap: 6 }}>
+            <button onClick={submit} disabled={sending} style={{ ...thumbButton(true), borderRadius: 8, padding: '4px 10px' }}>
+              {sending ? 'Sending…' : 'Send feedback'}
+            </button>
+            <button onClick={() => setDraft(null)} disabled={sending} style={{ ...thumbButton(false), borderRadius: 8, padding: '4px 10px' }}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MessageFeedback;
@@ -0,0 +1,95 @@
+'use client';
+
+import React, { useState } from 'react';
+import { fillTemplate, type Skill } from './ai-skills';
+
+// Asks for a skill's `{{variables}}` before its prompt is put into the overlay input.
+
+export function SkillVariablesForm(props: { skill: Skill; onInsert: (text: string) => void; onCancel: () => void }) {
+  const { skill } = props;
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(skill.variables.map((v) => [v.name, v.default ?? '']))
+  );
+
+  const insert = () => props.onInsert(fillTemplate(skill.template, values));
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        insert();
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') {
+          e.stopPropagation();
+          props.onCancel();
+        }
+      }}
+      style={{
+        position: 'absolute',
+        left: 12,
+        right: 12,
+        bottom: '100%',
+        marginBottom: 4,
+        zIndex: 3,
+        borderRadius: 10,
+        border: '1px solid var(--hit-border, rgba(255,255,255,0.25))',
+        background: 'var(--hit-surface, rgba(17,17,17,0.98))',
+        boxShadow: '0 8px 24px rgba(0,0,0,0.25)',
+        padding: 10,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 6,
+        fontSize: 12,
+      }}
+    >
+      <div style={{ fontWeight: 700 }}>
+        /{skill.name} <span style={{ fontWeight: 400, opacity: 0.7 }}>{skill.title !== skill.name ? skill.title : ''}</span>
+      </div>
+      {skill.variables.map((v, i) => (
+        <label key={v.name} style={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <span style={{ opacity: 0.75 }}>{v.label || v.name}</span>
+          <input
+            autoFocus={i === 0}
+            value={values[v.name] ?? ''}
+            onChange={(e) => setValues((prev) => ({ ...prev, [v.name]: e.target.value }))}
+            style={{
+              borderRadius: 6,
+              border: '1px solid var(--hit-input-border, var(--hit-border, #e2e8f0))',
+              padding: '4px 8px',
+              background: 'var(--hit-input-bg, var(--hit-surface, #fff))',
+              color: 'var(--hit-foreground, #0f172a)',
+              fontSize: 12,
+            }}
+          />
+        </label>
+      ))}
+      <div style={{ display: 'flex', gap: 6, justifyContent: 'flex-end' }}>
+        <button
+          type="button"
+          onClick={props.onCancel}
+          style={{ border: 'none', background: 'transparent', color: 'inherit', cursor: 'pointer', fontSize: 12 }}
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          style={{
+            borderRadius: 8,
+            border: '1px solid var(--hit-primary, #3b82f6)',
+            background: 'var(--hit-primary-light, rgba(59,130,246,0.12))',
+            color: 'inherit',
+            cursor: 'pointer',
+            fontSize: 12,
+            fontWeight: 700,
+            padding: '4px 10px',
+          }}
+        >
+          Insert
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default SkillVariablesForm;
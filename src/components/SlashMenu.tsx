@@ -0,0 +1,77 @@
+'use client';
+
+import React from 'react';
+
+// Autocomplete list shown above the overlay input while the user types a `/` command.
+// Keyboard handling stays with the input; this only renders and reports picks.
+
+export type SlashMenuItem = {
+  key: string;
+  /** What the user types, e.g. `/log-call`. */
+  label: string;
+  description?: string;
+  /** Short tag on the right, e.g. "shared". */
+  badge?: string;
+};
+
+export function SlashMenu(props: {
+  items: SlashMenuItem[];
+  activeIndex: number;
+  onPick: (item: SlashMenuItem) => void;
+  onHover: (index: number) => void;
+}) {
+  if (props.items.length === 0) return null;
+  return (
+    <div
+      role="listbox"
+      aria-label="Commands"
+      style={{
+        position: 'absolute',
+        left: 12,
+        right: 12,
+        bottom: '100%',
+        marginBottom: 4,
+        zIndex: 3,
+        maxHeight: 240,
+        overflow: 'auto',
+        borderRadius: 10,
+        border: '1px solid var(--hit-border, rgba(255,255,255,0.25))',
+        background: 'var(--hit-surface, rgba(17,17,17,0.98))',
+        boxShadow: '0 8px 24px rgba(0,0,0,0.25)',
+        padding: 4,
+      }}
+    >
+      {props.items.map((item, i) => (
+        <div
+          key={item.key}
+          role="option"
+          aria-selected={i === props.activeIndex}
+          onMouseDown={(e) => {
+            // keep focus in the input
+            e.preventDefault();
+            props.onPick(item);
+          }}
+          onMouseEnter={() => props.onHover(i)}
+          style={{
+            display: 'flex',
+            alignItems: 'baseline',
+            gap: 8,
+            padding: '6px 8px',
+            borderRadius: 6,
+            cursor: 'pointer',
+            fontSize: 12,
+            background: i === props.activeIndex ? 'rgba(59,130,246,0.22)' : 'transparent',
+          }}
+        >
+          <span style={{ fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace', fontWeight: 700 }}>{item.label}</span>
+          <span style={{ flex: 1, opacity: 0.7, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {item.description}
+          </span>
+          {item.badge && <span style={{ fontSize: 10, opacity: 0.6 }}>{item.badge}</span>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default SlashMenu;
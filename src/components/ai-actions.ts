@@ -0,0 +1,280 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+// UI actions the agent can ask the overlay to perform in the browser, alongside its reply:
+//
+//   { "type": "navigate", "path": "/crm/deals" }
+//   { "type": "openRecord", "entity": "deal", "id": "123" }
+//   { "type": "setTableFilter", "tableId": "crm.deals", "filters": { "stage": "won" } }
+//   { "type": "refreshView" }
+//   { "type": "toast", "message": "Deal updated", "variant": "success" }
+//
+// Actions arrive in the chat response (`actions`) or as `action` stream events. Each type
+// has a handler in a registry the shell and feature packs can extend; only types on the
+// overlay's allow-list run, and every attempt is noted in the transcript.
+
+export type ToastVariant = 'info' | 'success' | 'warning' | 'error';
+
+export type NavigateAction = { type: 'navigate'; path: string };
+export type OpenRecordAction = { type: 'openRecord'; entity: string; id: string; path?: string };
+export type SetTableFilterAction = {
+  type: 'setTableFilter';
+  tableId: string;
+  filters?: Record<string, unknown>;
+  search?: string;
+};
+export type RefreshViewAction = { type: 'refreshView'; target?: string };
+export type ToastAction = { type: 'toast'; message: string; variant?: ToastVariant };
+
+export type BuiltinClientAction =
+  | NavigateAction
+  | OpenRecordAction
+  | SetTableFilterAction
+  | RefreshViewAction
+  | ToastAction;
+
+/** What the overlay lends an action handler. */
+export type ClientActionContext = {
+  pathname?: string;
+  user?: { email?: string; roles?: string[] } | null;
+  /** Client-side navigation to an in-app path. */
+  navigate: (path: string) => void;
+  toast: (message: string, variant?: ToastVariant) => void;
+};
+
+export type ClientActionHandler<A extends { type: string } = { type: string }> = {
+  type: A['type'];
+  /** Check and normalize the raw action; return a reason string to reject it. */
+  parse: (raw: Record<string, unknown>) => A | string;
+  /** Run it; return false (or throw) if nothing on the page could handle it. */
+  run: (action: A, ctx: ClientActionContext) => void | boolean | Promise<void | boolean>;
+  /** Past-tense note for the transcript, e.g. "opened deal 123". */
+  describe: (action: A) => string;
+  /** Runs without being listed in the overlay's `allowedActions`. Built-ins only, by convention. */
+  allowByDefault?: boolean;
+};
+
+export type ClientActionResult = { type: string; ok: boolean; note: string };
+
+type Listener = (action: unknown) => void | boolean | Promise<void | boolean>;
+
+const handlers = new Map<string, ClientActionHandler>();
+const listeners = new Map<string, Set<Listener>>();
+const recordRoutes = new Map<string, (id: string) => string>();
+
+/** Add or replace the handler for an action type. Returns a function that removes it. */
+export function registerClientAction<A extends { type: string }>(handler: ClientActionHandler<A>): () => void {
+  // Stored type-erased: `run` only ever receives what the same handler's `parse` returned.
+  const erased = handler as unknown as ClientActionHandler;
+  handlers.set(erased.type, erased);
+  return () => {
+    if (handlers.get(erased.type) === erased) handlers.delete(erased.type);
+  };
+}
+
+/** Action types that run when the overlay is not given an explicit allow-list. */
+export function defaultAllowedActions(): string[] {
+  return Array.from(handlers.values())
+    .filter((h) => h.allowByDefault)
+    .map((h) => h.type);
+}
+
+/**
+ * Tell `openRecord` where records of an entity live, e.g.
+ * `registerRecordRoute('deal', (id) => `/crm/deals/${id}`)`.
+ */
+export function registerRecordRoute(entity: string, toPath: (id: string) => string): () => void {
+  const key = entity.toLowerCase();
+  recordRoutes.set(key, toPath);
+  return () => {
+    if (recordRoutes.get(key) === toPath) recordRoutes.delete(key);
+  };
+}
+
+/** Subscribe page code to an action type (used by setTableFilter and refreshView). */
+export function onClientAction(type: string, listener: Listener): () => void {
+  let set = listeners.get(type);
+  if (!set) listeners.set(type, (set = new Set()));
+  set.add(listener);
+  return () => {
+    set!.delete(listener);
+  };
+}
+
+/** `onClientAction` for components; the latest `listener` is always used. */
+export function useClientAction<A extends { type: string }>(
+  type: A['type'],
+  listener: (action: A) => void | boolean | Promise<void | boolean>
+) {
+  const latest = useRef(listener);
+  latest.current = listener;
+  useEffect(() => onClientAction(type, (a) => latest.current(a as A)), [type]);
+}
+
+/** Deliver to page listeners; true if at least one accepted the action. */
+async function notify(type: string, action: unknown): Promise<boolean> {
+  let handled = false;
+  for (const listener of Array.from(listeners.get(type) ?? [])) {
+    if ((await listener(action)) !== false) handled = true;
+  }
+  return handled;
+}
+
+// The URL parser drops tab and newline, so "/\t/evil.com" would become "//evil.com".
+const UNSAFE_PATH_CHAR = /[\u0000-\u001F\u007F\s]/;
+
+/** In-app paths only: the agent must not send users to other origins. */
+export function isAppPath(path: unknown): path is string {
+  if (typeof path !== 'string' || !path.startsWith('/') || path.startsWith('//') || path.includes('\\')) return false;
+  if (UNSAFE_PATH_CHAR.test(path)) return false;
+  if (typeof window === 'undefined') return true;
+  try {
+    return new URL(path, window.location.origin).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+}
+
+function str(raw: Record<string, unknown>, key: string): string {
+  return typeof raw[key] === 'string' ? (raw[key] as string).trim() : '';
+}
+
+export const builtinClientActions = [
+  {
+    type: 'navigate',
+    allowByDefault: true,
+    parse: (raw) =>
+      isAppPath(raw.path) ? { type: 'navigate', path: raw.path } : 'path must be an in-app path starting with /',
+    run: (a, ctx) => ctx.navigate(a.path),
+    describe: (a) => `navigated to ${a.path}`,
+  } satisfies ClientActionHandler<NavigateAction>,
+  {
+    type: 'openRecord',
+    allowByDefault: true,
+    parse: (raw) => {
+      const entity = str(raw, 'entity');
+      const id = typeof raw.id === 'number' ? String(raw.id) : str(raw, 'id');
+      if (!entity || !id) return 'entity and id are required';
+      if (raw.path !== undefined && !isAppPath(raw.path)) return 'path must be an in-app path starting with /';
+      return { type: 'openRecord', entity, id, ...(typeof raw.path === 'string' ? { path: raw.path } : {}) };
+    },
+    run: (a, ctx) => {
+      const route = recordRoutes.get(a.entity.toLowerCase());
+      const path = a.path ?? (route ? route(encodeURIComponent(a.id)) : null);
+      if (!path || !isAppPath(path)) throw new Error(`no page is registered for ${a.entity} records`);
+      ctx.navigate(path);
+    },
+    describe: (a) => `opened ${a.entity} ${a.id}`,
+  } satisfies ClientActionHandler<OpenRecordAction>,
+  {
+    type: 'setTableFilter',
+    allowByDefault: true,
+    parse: (raw) => {
+      const tableId = str(raw, 'tableId');
+      if (!tableId) return 'tableId is required';
+      const filters =
+        raw.filters && typeof raw.filters === 'object' && !Array.isArray(raw.filters)
+          ? (raw.filters as Record<string, unknown>)
+          : undefined;
+      const search = typeof raw.search === 'string' ? raw.search : undefined;
+      if (!filters && search === undefined) return 'filters or search is required';
+      return {
+        type: 'setTableFilter',
+        tableId,
+        ...(filters ? { filters } : {}),
+        ...(search !== undefined ? { search } : {}),
+      };
+    },
+    run: (a) => notify('setTableFilter', a),
+    describe: (a) => {
+      const parts = Object.entries(a.filters ?? {}).map(([k, v]) => `${k}=${typeof v === 'string' ? v : JSON.stringify(v)}`);
+      if (a.search) parts.push(`search “${a.search}”`);
+      return `filtered ${a.tableId} by ${parts.join(', ') || 'nothing'}`;
+    },
+  } satisfies ClientActionHandler<SetTableFilterAction>,
+  {
+    type: 'refreshView',
+    allowByDefault: true,
+    parse: (raw) => ({ type: 'refreshView', ...(str(raw, 'target') ? { target: str(raw, 'target') } : {}) }),
+    run: (a) => notify('refreshView', a),
+    describe: (a) => (a.target ? `refreshed ${a.target}` : 'refreshed the view'),
+  } satisfies ClientActionHandler<RefreshViewAction>,
+  {
+    type: 'toast',
+    allowByDefault: true,
+    parse: (raw) => {
+      const message = str(raw, 'message').slice(0, 300);
+      if (!message) return 'message is required';
+      const variant = ['info', 'success', 'warning', 'error'].includes(raw.variant as string)
+        ? (raw.variant as ToastVariant)
+        : 'info';
+      return { type: 'toast', message, variant };
+    },
+    run: (a, ctx) => ctx.toast(a.message, a.variant),
+    describe: (a) => `showed a notice: “${a.message}”`,
+  } satisfies ClientActionHandler<ToastAction>,
+];
+
+let builtinsRegistered = false;
+
+/**
+ * Register the built-in actions and this pack's record routes. The overlay calls this
+ * when it mounts (the package is side-effect free, so nothing registers on import).
+ * Handlers a pack registered earlier for the same type are kept; later calls do nothing.
+ */
+export function registerBuiltinClientActions() {
+  if (builtinsRegistered) return;
+  builtinsRegistered = true;
+  for (const handler of builtinClientActions) {
+    if (!handlers.has(handler.type)) registerClientAction(handler as ClientActionHandler<BuiltinClientAction>);
+  }
+  // This pack's own records; other packs register theirs.
+  if (!recordRoutes.has('trace')) registerRecordRoute('trace', (id) => `/admin/ai/traces/${id}`);
+}
+
+/**
+ * Run actions in order. Unknown, disallowed or malformed actions are skipped; the
+ * result for each says what happened, for the transcript.
+ */
+export async function dispatchClientActions(
+  raw: unknown,
+  ctx: ClientActionContext,
+  allowed: readonly string[] = defaultAllowedActions()
+): Promise<ClientActionResult[]> {
+  if (!Array.isArray(raw)) return [];
+  const results: ClientActionResult[] = [];
+  for (const item of raw) {
+    const rec = item && typeof item === 'object' && !Array.isArray(item) ? (item as Record<string, unknown>) : null;
+    const type = typeof rec?.type === 'string' ? rec.type : '';
+    if (!rec || !type) {
+      results.push({ type: type || 'unknown', ok: false, note: 'skipped a malformed action' });
+      continue;
+    }
+    const handler = handlers.get(type);
+    if (!handler) {
+      results.push({ type, ok: false, note: `skipped unknown action “${type}”` });
+      continue;
+    }
+    if (!allowed.includes(type)) {
+      results.push({ type, ok: false, note: `blocked action “${type}” (not allowed here)` });
+      continue;
+    }
+    const action = handler.parse(rec);
+    if (typeof action === 'string') {
+      results.push({ type, ok: false, note: `skipped “${type}”: ${action}` });
+      continue;
+    }
+    try {
+      const outcome = await handler.run(action, ctx);
+      results.push(
+        outcome === false
+          ? { type, ok: false, note: `“${type}” had no effect: nothing on this page handles it` }
+          : { type, ok: true, note: handler.describe(action) }
+      );
+    } catch (e) {
+      results.push({ type, ok: false, note: `“${type}” failed: ${e instanceof Error ? e.message : String(e)}` });
+    }
+  }
+  return results;
+}
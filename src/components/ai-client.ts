@@ -0,0 +1,43 @@
+// Shared plumbing for the assistant's browser-side calls to /api/ai/*.
+
+/** The session token: the `hit_token` cookie, falling back to localStorage. */
+export function getStoredToken(): string | null {
+  if (typeof document !== 'undefined') {
+    for (const cookie of document.cookie.split(';')) {
+      const [name, value] = cookie.trim().split('=');
+      if (name === 'hit_token' && value) return value;
+    }
+  }
+  if (typeof localStorage !== 'undefined') return localStorage.getItem('hit_token');
+  return null;
+}
+
+export type AuthedRequestInit = RequestInit & {
+  /** Bearer token to send; defaults to the stored session token. */
+  token?: string | null;
+};
+
+/** `fetch` with a JSON content type and the session's bearer token. */
+export function authedFetch(url: string, init: AuthedRequestInit = {}): Promise<Response> {
+  const { token: explicit, ...rest } = init;
+  const token = explicit || getStoredToken();
+  return fetch(url, {
+    ...rest,
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(rest.headers as Record<string, string> | undefined),
+    },
+  });
+}
+
+/** authedFetch and parse the JSON body; throws the server's `error` on a non-2xx status. */
+export async function authedJson<T = any>(url: string, init?: AuthedRequestInit): Promise<T> {
+  const res = await authedFetch(url, init);
+  const data = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(String((data as any)?.error || res.statusText || `Request failed: ${res.status}`));
+  }
+  return data as T;
+}
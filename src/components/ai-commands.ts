@@ -0,0 +1,251 @@
+// Slash commands typed into the AI overlay input (`/help`, `/methods contacts`, ...).
+//
+// Commands run in the browser and never reach the chat agent. Other feature packs can
+// add their own with `registerSlashCommand`; the overlay picks up registrations made
+// before or after it mounts.
+
+import type { ExportFormat } from './ai-conversations';
+
+/** What a command can do in the overlay it runs in. */
+export type SlashCommandContext = {
+  /** Everything typed after the command name, trimmed. */
+  args: string;
+  pathname?: string;
+  user?: { email?: string; roles?: string[] } | null;
+  /** Append an assistant message (markdown) to the transcript. */
+  reply: (content: string) => void;
+  newChat: () => void;
+  /** Load the trace of the latest agent run, like the Trace button. */
+  loadTrace: () => Promise<void>;
+  exportConversation: (format: ExportFormat) => Promise<void>;
+  /** Queue a tool call on the approval card; nothing runs until the user approves it. */
+  proposeRequest: (draft: { toolName: 'http.request' | 'http.bulk'; input: Record<string, any> }) => void;
+  /** fetch() with the user's auth header; throws on non-2xx with the server's error message. */
+  fetchJson: <T = any>(url: string, init?: RequestInit) => Promise<T>;
+};
+
+export type SlashCommand = {
+  /** Typed as `/name`; lowercase letters, digits and dashes. */
+  name: string;
+  description: string;
+  /** Argument hint shown in autocomplete and /help, e.g. `<query>`. Commands without one run on pick. */
+  usage?: string;
+  run: (ctx: SlashCommandContext) => void | Promise<void>;
+};
+
+type MethodSpec = {
+  name: string;
+  method: string;
+  pathTemplate: string;
+  description: string;
+  pathParams: string[];
+  readOnly: boolean;
+  featurePack?: string;
+};
+
+const NAME_RE = /^[a-z][a-z0-9-]*$/;
+
+const registry = new Map<string, SlashCommand>();
+const listeners = new Set<() => void>();
+let snapshot: SlashCommand[] = [];
+
+function changed() {
+  snapshot = Array.from(registry.values()).sort((a, b) => a.name.localeCompare(b.name));
+  for (const listener of listeners) listener();
+}
+
+/**
+ * Add a command (replacing any with the same name). Returns a function that removes it again.
+ */
+export function registerSlashCommand(command: SlashCommand): () => void {
+  if (!NAME_RE.test(command.name)) {
+    throw new Error(`Invalid slash command name: ${command.name}`);
+  }
+  registry.set(command.name, command);
+  changed();
+  return () => {
+    if (registry.get(command.name) !== command) return;
+    registry.delete(command.name);
+    changed();
+  };
+}
+
+/** Registered commands, sorted by name. The array is replaced (not mutated) on change. */
+export function getSlashCommands(): SlashCommand[] {
+  return snapshot;
+}
+
+export function subscribeSlashCommands(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function parseSlashInput(text: string): { name: string; args: string } | null {
+  const m = /^\/([a-z][a-z0-9-]*)(?:\s+([\s\S]*))?$/i.exec(text.trim());
+  return m ? { name: m[1].toLowerCase(), args: (m[2] || '').trim() } : null;
+}
+
+/**
+ * Turn `/run` arguments into an http.request input. Keys naming path params fill the
+ * path; `query` and `body` are used as given; any other keys go to the query string
+ * for GET/DELETE and to the body otherwise.
+ */
+export function buildRequestDraft(
+  spec: Pick<MethodSpec, 'method' | 'pathTemplate'>,
+  params: Record<string, any>
+): { ok: true; input: Record<string, any> } | { ok: false; error: string } {
+  const method = spec.method.toUpperCase();
+  const rest: Record<string, any> = { ...params };
+  const missing: string[] = [];
+  const path = spec.pathTemplate.replace(/\[([^\]]+)\]/g, (_whole, raw: string) => {
+    const catchAll = raw.startsWith('...');
+    const key = catchAll ? raw.slice(3) : raw;
+    const value = rest[key];
+    delete rest[key];
+    if (value == null || value === '') {
+      missing.push(key);
+      return `[${raw}]`;
+    }
+    if (catchAll) {
+      const segments = Array.isArray(value) ? value : String(value).split('/');
+      return segments.map((v) => encodeURIComponent(String(v))).join('/');
+    }
+    return encodeURIComponent(String(value));
+  });
+  if (missing.length > 0) return { ok: false, error: `Missing path parameter(s): ${missing.join(', ')}` };
+
+  let query = rest.query && typeof rest.query === 'object' ? { ...rest.query } : null;
+  let body = rest.body !== undefined ? rest.body : null;
+  delete rest.query;
+  delete rest.body;
+  if (Object.keys(rest).length > 0) {
+    if (method === 'GET' || method === 'DELETE') query = { ...(query || {}), ...rest };
+    else body = { ...(body && typeof body === 'object' ? body : {}), ...rest };
+  }
+  return {
+    ok: true,
+    input: {
+      method,
+      path,
+      ...(query && Object.keys(query).length > 0 ? { query } : {}),
+      ...(body != null ? { body } : {}),
+    },
+  };
+}
+
+function formatMethod(m: MethodSpec): string {
+  const tag = m.readOnly ? 'read' : 'write';
+  return `- \`${m.name}\` — ${m.method.toUpperCase()} \`${m.pathTemplate}\` (${tag})${m.description ? `: ${m.description}` : ''}`;
+}
+
+export const builtinSlashCommands: SlashCommand[] = [
+  {
+    name: 'help',
+    description: 'List available commands',
+    run(ctx) {
+      const lines = getSlashCommands().map((c) => `- \`/${c.name}${c.usage ? ` ${c.usage}` : ''}\` — ${c.description}`);
+      ctx.reply(`**Commands**\n\n${lines.join('\n')}\n\nSaved prompts (skills) are listed when you type \`/\`.`);
+    },
+  },
+  {
+    name: 'new',
+    description: 'Start a new conversation',
+    run(ctx) {
+      ctx.newChat();
+    },
+  },
+  {
+    name: 'trace',
+    description: 'Show the trace of the latest agent run',
+    run(ctx) {
+      return ctx.loadTrace();
+    },
+  },
+  {
+    name: 'export',
+    usage: '[markdown|json|html]',
+    description: 'Download this conversation',
+    run(ctx) {
+      const raw = ctx.args.toLowerCase() || 'markdown';
+      const format = raw === 'md' ? 'markdown' : raw;
+      if (format !== 'markdown' && format !== 'json' && format !== 'html') {
+        ctx.reply('Usage: `/export [markdown|json|html]`');
+        return;
+      }
+      return ctx.exportConversation(format);
+    },
+  },
+  {
+    name: 'methods',
+    usage: '<query>',
+    description: 'Search the API methods the assistant can call',
+    async run(ctx) {
+      if (!ctx.args) {
+        ctx.reply('Usage: `/methods <query>`, e.g. `/methods create contact`');
+        return;
+      }
+      const params = new URLSearchParams({ q: ctx.args, limit: '10' });
+      const data = await ctx.fetchJson<{ candidates?: MethodSpec[] }>(`/api/ai/methods-search?${params.toString()}`);
+      const candidates = Array.isArray(data?.candidates) ? data.candidates : [];
+      ctx.reply(
+        candidates.length > 0
+          ? `**Methods matching “${ctx.args}”**\n\n${candidates.map(formatMethod).join('\n')}\n\nRun one with \`/run <methodName> {json}\`.`
+          : `No methods match “${ctx.args}”.`
+      );
+    },
+  },
+  {
+    name: 'run',
+    usage: '<methodName> {json}',
+    description: 'Draft a request for approval',
+    async run(ctx) {
+      const m = /^(\S+)\s*([\s\S]*)$/.exec(ctx.args);
+      if (!m) {
+        ctx.reply('Usage: `/run <methodName> {json}`, e.g. `/run route_api_crm_contacts_id__GET {"id":"123"}`');
+        return;
+      }
+      const [, methodName, json] = m;
+      let params: Record<string, any> = {};
+      if (json.trim()) {
+        try {
+          params = JSON.parse(json);
+        } catch {
+          ctx.reply('The arguments must be a JSON object.');
+          return;
+        }
+        if (!params || typeof params !== 'object' || Array.isArray(params)) {
+          ctx.reply('The arguments must be a JSON object.');
+          return;
+        }
+      }
+      const catalog = await ctx.fetchJson<{ methods?: MethodSpec[] }>('/api/ai/methods');
+      const spec = (Array.isArray(catalog?.methods) ? catalog.methods : []).find((x) => x.name === methodName);
+      if (!spec) {
+        ctx.reply(`Unknown method \`${methodName}\`. Find one with \`/methods <query>\`.`);
+        return;
+      }
+      const draft = buildRequestDraft(spec, params);
+      if (!draft.ok) {
+        ctx.reply(`${draft.error}. Path: \`${spec.pathTemplate}\``);
+        return;
+      }
+      ctx.proposeRequest({ toolName: 'http.request', input: draft.input });
+    },
+  },
+];
+
+let builtinsRegistered = false;
+
+/**
+ * Register the built-in commands; the overlay calls this when it mounts. Commands a
+ * pack registered earlier under the same name are kept. Later calls do nothing.
+ */
+export function registerBuiltinSlashCommands() {
+  if (builtinsRegistered) return;
+  builtinsRegistered = true;
+  for (const command of builtinSlashCommands) {
+    if (!registry.has(command.name)) registerSlashCommand(command);
+  }
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { isSecretKey, REDACTED } from '../shared/ai-redact';
+
+// Page context for the AI assistant: selected rows, the open record, active filters...
+//
+// Pages publish a snapshot function with `useAiContext`; the overlay calls every
+// registered function when it sends a chat message, so snapshots are always current
+// and nothing is computed while the assistant is idle. The overlay is mounted at the
+// shell, outside the page tree, so providers live in a module-level registry rather
+// than a React context.
+
+export type AiContextSnapshot = () => unknown;
+
+export type AiContextLimits = {
+  /** Budget for all snapshots together, in bytes of JSON. */
+  maxTotalBytes?: number;
+  /** Budget for a single provider, in bytes of JSON. */
+  maxProviderBytes?: number;
+};
+
+export type CollectedAiContext = {
+  /** Redacted, size-limited snapshots keyed by provider key. */
+  snapshots: Record<string, unknown>;
+  /** Providers left out because they failed or did not fit the budget. */
+  omitted: Array<{ key: string; reason: 'error' | 'too_large' }>;
+};
+
+const MAX_TOTAL_BYTES = 16_000;
+const MAX_PROVIDER_BYTES = 6_000;
+const MAX_DEPTH = 6;
+
+// Progressively tighter shapes tried until a snapshot fits its budget.
+const SHRINK_STEPS = [
+  { maxString: 500, maxItems: 50 },
+  { maxString: 200, maxItems: 20 },
+  { maxString: 80, maxItems: 5 },
+];
+
+type Entry = { key: string; getSnapshot: AiContextSnapshot };
+
+const providers = new Map<number, Entry>();
+let nextId = 1;
+
+/**
+ * Register a snapshot function outside React. Returns a function that removes it.
+ * When several providers share a key, the most recently registered one wins.
+ */
+export function registerAiContext(key: string, getSnapshot: AiContextSnapshot): () => void {
+  const id = nextId++;
+  providers.set(id, { key, getSnapshot });
+  return () => {
+    providers.delete(id);
+  };
+}
+
+/**
+ * Publish page context to the AI assistant while the calling component is mounted.
+ *
+ *   useAiContext({ key: 'crm.contacts', getSnapshot: () => ({ selectedIds, filters }) });
+ *
+ * `getSnapshot` may close over fresh state on every render; the latest one is used.
+ */
+export function useAiContext(options: { key: string; getSnapshot: AiContextSnapshot; enabled?: boolean }) {
+  const latest = useRef(options.getSnapshot);
+  latest.current = options.getSnapshot;
+  const enabled = options.enabled !== false;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return registerAiContext(options.key, () => latest.current());
+  }, [options.key, enabled]);
+}
+
+function sanitize(value: unknown, step: (typeof SHRINK_STEPS)[number], depth: number, seen: WeakSet<object>): unknown {
+  if (value == null || typeof value === 'number' || typeof value === 'boolean') return value;
+  if (typeof value === 'string') return value.length > step.maxString ? `${value.slice(0, step.maxString)}…` : value;
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'function' || typeof value === 'symbol') return undefined;
+  if (value instanceof Date) return value.toISOString();
+  if (depth >= MAX_DEPTH) return '[…]';
+  if (typeof value !== 'object') return String(value);
+  if (seen.has(value)) return '[circular]';
+  // `seen` holds the current ancestors only, so shared (non-circular) references still serialize.
+  seen.add(value);
+  let out: unknown;
+  if (Array.isArray(value)) {
+    const items = value.slice(0, step.maxItems).map((v) => sanitize(v, step, depth + 1, seen));
+    if (value.length > step.maxItems) items.push(`[${value.length - step.maxItems} more]`);
+    out = items;
+  } else {
+    const obj: Record<string, unknown> = {};
+    const entries = Object.entries(value as Record<string, unknown>);
+    for (const [k, v] of entries.slice(0, step.maxItems)) {
+      obj[k] = isSecretKey(k) ? REDACTED : sanitize(v, step, depth + 1, seen);
+    }
+    if (entries.length > step.maxItems) obj['…'] = `${entries.length - step.maxItems} more keys`;
+    out = obj;
+  }
+  seen.delete(value);
+  return out;
+}
+
+function byteLength(s: string): number {
+  return typeof TextEncoder !== 'undefined' ? new TextEncoder().encode(s).length : s.length;
+}
+
+/** Fit one snapshot into `budget` bytes, or null if even the tightest shape is too large. */
+function fit(value: unknown, budget: number): { value: unknown; bytes: number } | null {
+  for (const step of SHRINK_STEPS) {
+    const clean = sanitize(value, step, 0, new WeakSet());
+    const bytes = byteLength(JSON.stringify(clean) ?? 'null');
+    if (bytes <= budget) return { value: clean, bytes };
+  }
+  return null;
+}
+
+/** Call every registered provider and return redacted, size-limited snapshots. */
+export function collectAiContext(limits: AiContextLimits = {}): CollectedAiContext {
+  const maxTotal = limits.maxTotalBytes ?? MAX_TOTAL_BYTES;
+  const maxProvider = limits.maxProviderBytes ?? MAX_PROVIDER_BYTES;
+
+  const byKey = new Map<string, AiContextSnapshot>();
+  for (const { key, getSnapshot } of providers.values()) byKey.set(key, getSnapshot);
+
+  const snapshots: Record<string, unknown> = {};
+  const omitted: CollectedAiContext['omitted'] = [];
+  let used = 0;
+  for (const [key, getSnapshot] of byKey) {
+    let raw: unknown;
+    try {
+      raw = getSnapshot();
+    } catch {
+      omitted.push({ key, reason: 'error' });
+      continue;
+    }
+    if (raw === undefined) continue;
+    const fitted = fit(raw, Math.min(maxProvider, maxTotal - used));
+    if (!fitted) {
+      omitted.push({ key, reason: 'too_large' });
+      continue;
+    }
+    snapshots[key] = fitted.value;
+    used += fitted.bytes;
+  }
+  return { snapshots, omitted };
+}
@@ -0,0 +1,128 @@
+// Client helpers for /api/ai/conversations (server-side chat history).
+
+import { authedFetch, authedJson } from './ai-client';
+
+export type ConversationMessage = {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  at?: string;
+  correlationId?: string;
+  approval?: { toolName: string; status: string; input: unknown; result: unknown };
+  feedback?: 'up' | 'down';
+};
+
+export type ConversationSummary = {
+  id: string;
+  title: string;
+  pathname: string | null;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  preview: string;
+};
+
+export type Conversation = Omit<ConversationSummary, 'messageCount' | 'preview'> & {
+  messages: ConversationMessage[];
+};
+
+// Chat history before it moved server-side: one localStorage entry per user and pathname.
+const LEGACY_KEY_PREFIX = 'hit_ai_assistant_chat_v2';
+const MIGRATED_KEY_PREFIX = 'hit_ai_assistant_migrated_v3';
+
+export function conversationsApi<T = any>(path: string, init?: RequestInit): Promise<T> {
+  return authedJson<T>(`/api/ai/conversations${path}`, init);
+}
+
+export function listConversations(q?: string): Promise<{ items: ConversationSummary[]; total: number }> {
+  const params = new URLSearchParams({ limit: '100' });
+  if (q) params.set('q', q);
+  return conversationsApi(`?${params.toString()}`);
+}
+
+export function getConversation(id: string): Promise<Conversation> {
+  return conversationsApi(`/${encodeURIComponent(id)}`);
+}
+
+export function createConversation(init: {
+  title?: string;
+  pathname?: string | null;
+  messages: ConversationMessage[];
+}): Promise<Conversation> {
+  return conversationsApi('', { method: 'POST', body: JSON.stringify(init) });
+}
+
+export function updateConversation(
+  id: string,
+  patch: { title?: string; messages?: ConversationMessage[] }
+): Promise<Conversation> {
+  return conversationsApi(`/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(patch) });
+}
+
+export function deleteConversation(id: string): Promise<{ ok: true }> {
+  return conversationsApi(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = { markdown: 'md', json: 'json', html: 'html' };
+
+/** Download the conversation as a file in the given format. */
+export async function downloadConversation(id: string, format: ExportFormat): Promise<void> {
+  const res = await authedFetch(`/api/ai/conversations/${encodeURIComponent(id)}/export?format=${format}`);
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    throw new Error(String((data as any)?.error || res.statusText || `Export failed: ${res.status}`));
+  }
+  const url = URL.createObjectURL(await res.blob());
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `ai-conversation-${id.slice(0, 8)}.${EXPORT_EXTENSIONS[format]}`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Admin-only: read-only link that opens the transcript beside its trace. */
+export function shareConversation(
+  id: string
+): Promise<{ token: string; url: string; correlationId: string; expiresAt: string }> {
+  return conversationsApi(`/${encodeURIComponent(id)}/share`, { method: 'POST' });
+}
+
+/**
+ * One-time import of the per-pathname localStorage chats into the server store.
+ * Each legacy entry is removed once uploaded, so an interrupted run resumes where
+ * it stopped. Returns the id of the conversation imported for `pathname`, if any.
+ */
+export async function migrateLocalHistory(userEmail: string | null | undefined, pathname?: string): Promise<string | null> {
+  if (typeof window === 'undefined') return null;
+  const email = (userEmail || 'anon').toLowerCase();
+  const flagKey = `${MIGRATED_KEY_PREFIX}:${email}`;
+  if (window.localStorage.getItem(flagKey)) return null;
+
+  const prefix = `${LEGACY_KEY_PREFIX}:${email}:`;
+  const keys: string[] = [];
+  for (let i = 0; i < window.localStorage.length; i++) {
+    const key = window.localStorage.key(i);
+    if (key && key.startsWith(prefix)) keys.push(key);
+  }
+
+  const currentPath = (pathname || '/').split('?')[0].split('#')[0];
+  let currentId: string | null = null;
+  for (const key of keys) {
+    let messages: ConversationMessage[] = [];
+    try {
+      const parsed = JSON.parse(window.localStorage.getItem(key) || 'null');
+      if (Array.isArray(parsed?.messages)) messages = parsed.messages;
+    } catch {
+      // unreadable entry; drop it
+    }
+    if (messages.some((m) => m?.role === 'user')) {
+      const legacyPath = key.slice(prefix.length);
+      const created = await createConversation({ pathname: legacyPath, messages });
+      if (legacyPath === currentPath) currentId = created.id;
+    }
+    window.localStorage.removeItem(key);
+  }
+  window.localStorage.setItem(flagKey, new Date().toISOString());
+  return currentId;
+}
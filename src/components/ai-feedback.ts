@@ -0,0 +1,50 @@
+// Client helpers for /api/ai/feedback (ratings of assistant replies).
+
+import { authedJson } from './ai-client';
+
+export type FeedbackRating = 'up' | 'down';
+
+/** Mirrors FEEDBACK_REASONS on the server, with the labels shown to users. */
+export const FEEDBACK_REASON_LABELS = {
+  incorrect: 'Incorrect',
+  incomplete: 'Incomplete',
+  wrong_action: 'Wrong action',
+  unsafe: 'Unsafe',
+  too_slow: 'Too slow',
+  other: 'Other',
+} as const;
+
+export type FeedbackReason = keyof typeof FEEDBACK_REASON_LABELS;
+
+export type FeedbackSummary = {
+  correlationId: string;
+  up: number;
+  down: number;
+  reasons: FeedbackReason[];
+  comments: Array<{ email: string; rating: FeedbackRating; comment: string }>;
+  lastAt: string;
+};
+
+export function feedbackApi<T = any>(query: string, init?: RequestInit): Promise<T> {
+  return authedJson<T>(`/api/ai/feedback${query}`, init);
+}
+
+export function sendFeedback(input: {
+  correlationId: string;
+  rating: FeedbackRating;
+  reason?: FeedbackReason | null;
+  comment?: string;
+  conversationId?: string | null;
+}): Promise<{ id: string }> {
+  return feedbackApi('', { method: 'POST', body: JSON.stringify(input) });
+}
+
+/** Admin: feedback for the given runs, keyed by correlationId. */
+export function getFeedbackFor(correlationIds: string[]): Promise<{ summaries: Record<string, FeedbackSummary> }> {
+  return feedbackApi(`?correlationIds=${encodeURIComponent(correlationIds.join(','))}`);
+}
+
+/** Admin: rated runs, newest feedback first. */
+export function listFeedback(params: URLSearchParams): Promise<{ items: FeedbackSummary[]; total: number }> {
+  return feedbackApi(`?${params.toString()}`);
+}
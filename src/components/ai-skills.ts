@@ -0,0 +1,60 @@
+// Client helpers for /api/ai/skills (saved prompt templates).
+
+import { authedJson } from './ai-client';
+
+export type SkillVariable = {
+  name: string;
+  label?: string;
+  default?: string;
+};
+
+export type Skill = {
+  id: string;
+  name: string;
+  title: string;
+  description: string;
+  template: string;
+  variables: SkillVariable[];
+  scope: 'user' | 'role';
+  ownerId: string;
+  roles: string[];
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type SkillInput = Partial<Pick<Skill, 'name' | 'title' | 'description' | 'template' | 'variables' | 'scope' | 'roles'>>;
+
+const VARIABLE_RE = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+export function skillsApi<T = any>(path: string, init?: RequestInit): Promise<T> {
+  return authedJson<T>(`/api/ai/skills${path}`, init);
+}
+
+/** Skills available to the current user; `all` (admin) lists every skill. */
+export function listSkills(all = false): Promise<{ items: Skill[]; total: number }> {
+  return skillsApi(all ? '?all=1' : '');
+}
+
+export function createSkill(input: SkillInput): Promise<Skill> {
+  return skillsApi('', { method: 'POST', body: JSON.stringify(input) });
+}
+
+export function updateSkill(id: string, input: SkillInput): Promise<Skill> {
+  return skillsApi(`/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(input) });
+}
+
+export function deleteSkill(id: string): Promise<{ ok: true }> {
+  return skillsApi(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+/** Placeholder names in order of first appearance. */
+export function templateVariables(template: string): string[] {
+  const seen = new Set<string>();
+  for (const m of template.matchAll(VARIABLE_RE)) seen.add(m[1]);
+  return Array.from(seen);
+}
+
+export function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(VARIABLE_RE, (whole, name: string) => (values[name] ? values[name] : whole));
+}
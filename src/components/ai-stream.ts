@@ -0,0 +1,76 @@
+// Reader for `text/event-stream` chat responses.
+//
+// EventSource can only issue GETs, so the overlay POSTs with fetch and parses the
+// stream itself. Events the chat endpoint may send (data is JSON):
+// - start     { correlationId }
+// - token     { text }                      incremental reply text
+// - pulse     { actor, kind, message }
+// - tool_call { name, input?, status? }     a tool the agent is calling
+// - approval  approval draft                a write waiting for the user (see AgentResponse.approvals)
+// - action    { type, ... }                 a UI action for the overlay to run (see ai-actions)
+// - done      AgentResponse                 final reply, correlationId, pulses
+// - error     { error }
+
+export type StreamEvent = {
+  event: string;
+  data: any;
+  id?: string;
+};
+
+export function isEventStream(res: Response): boolean {
+  return (res.headers.get('content-type') || '').toLowerCase().includes('text/event-stream');
+}
+
+function parseBlock(block: string): StreamEvent | null {
+  let event = 'message';
+  let id: string | undefined;
+  const data: string[] = [];
+  for (const line of block.split('\n')) {
+    if (!line || line.startsWith(':')) continue;
+    const idx = line.indexOf(':');
+    const field = idx === -1 ? line : line.slice(0, idx);
+    let value = idx === -1 ? '' : line.slice(idx + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+    else if (field === 'id') id = value;
+  }
+  if (data.length === 0) return null;
+  const raw = data.join('\n');
+  let parsed: any = raw;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    // plain-text data
+  }
+  return { event, data: parsed, ...(id ? { id } : {}) };
+}
+
+/**
+ * Read an event stream to the end, calling `onEvent` for each event as it arrives.
+ * Rejects with the fetch AbortError if the request's signal is aborted.
+ */
+export async function readEventStream(res: Response, onEvent: (e: StreamEvent) => void): Promise<void> {
+  if (!res.body) return;
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    // A CR ending this chunk may be the first half of a CRLF; leave it raw until the next one.
+    const cut = buffer.endsWith('\r') ? buffer.length - 1 : buffer.length;
+    buffer = buffer.slice(0, cut).replace(/\r\n?/g, '\n') + buffer.slice(cut);
+    let sep = buffer.indexOf('\n\n');
+    while (sep !== -1) {
+      const ev = parseBlock(buffer.slice(0, sep));
+      buffer = buffer.slice(sep + 2);
+      if (ev) onEvent(ev);
+      sep = buffer.indexOf('\n\n');
+    }
+  }
+  buffer += decoder.decode();
+  const last = parseBlock(buffer.replace(/\r\n?/g, '\n').trim());
+  if (last) onEvent(last);
+}
@@ -4,3 +4,35 @@ export { AiOverlay } from './components/AiOverlay';
 export { AiDebug } from './pages/AiDebug';
 export { AiTraces } from './pages/AiTraces';
 export { AiTraceDetail } from './pages/AiTraceDetail';
+export { AiAudit } from './pages/AiAudit';
+export { AiSkills } from './pages/AiSkills';
+
+// Slash commands - other packs can add their own to the overlay input
+export {
+  registerSlashCommand,
+  getSlashCommands,
+  type SlashCommand,
+  type SlashCommandContext,
+} from './components/ai-commands';
+
+// Page context - pages publish selections, filters, open records... to the assistant
+export {
+  useAiContext,
+  registerAiContext,
+  collectAiContext,
+  type AiContextSnapshot,
+  type AiContextLimits,
+} from './components/ai-context';
+
+// Client actions - UI actions the agent can run in the browser (navigate, open record, ...)
+export {
+  registerClientAction,
+  registerRecordRoute,
+  useClientAction,
+  onClientAction,
+  type ClientActionHandler,
+  type ClientActionContext,
+  type ClientActionResult,
+  type BuiltinClientAction,
+  type ToastVariant,
+} from './components/ai-actions';
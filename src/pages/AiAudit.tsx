@@ -0,0 +1,260 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useUi } from '@hit/ui-kit';
+import { useServerDataTableState } from '@hit/ui-kit/hooks/useServerDataTableState';
+
+type AuditEntry = {
+  id: string;
+  at: string;
+  userId: string;
+  email: string;
+  roles: string[];
+  correlationId: string | null;
+  toolName: string;
+  stepIndex: number | null;
+  method: string;
+  path: string;
+  body?: unknown;
+  approvalMode: 'auto' | 'manual';
+  status: number | null;
+  durationMs: number;
+  error?: string;
+};
+
+type AuditResponse = {
+  entries?: AuditEntry[];
+  total?: number;
+};
+
+function getAuthHeaders(): Record<string, string> {
+  if (typeof window === 'undefined') return {};
+  const token = localStorage.getItem('hit_token');
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+async function fetchAudit(params: URLSearchParams): Promise<Response> {
+  const res = await fetch(`/api/ai/audit?${params.toString()}`, {
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+      ...getAuthHeaders(),
+    },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({ error: res.statusText }));
+    const detail = (body as any)?.error || (body as any)?.detail || res.statusText;
+    throw new Error(String(detail || `Request failed: ${res.status}`));
+  }
+  return res;
+}
+
+function formatWhen(iso: string | null | undefined): string {
+  if (!iso) return '—';
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleString();
+}
+
+function statusVariant(status: number | null): 'success' | 'warning' | 'error' | 'default' {
+  if (typeof status !== 'number') return 'error';
+  if (status >= 200 && status < 300) return 'success';
+  if (status >= 400) return 'error';
+  return 'warning';
+}
+
+export function AiAudit() {
+  const { Page, Card, Button, DataTable, Alert, Badge } = useUi();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const serverTable = useServerDataTableState({
+    tableId: 'admin.ai.audit',
+    pageSize: 50,
+    initialSort: { sortBy: 'at', sortOrder: 'desc' },
+    // The audit log is append-only and always listed newest first.
+    sortWhitelist: ['at'],
+  });
+
+  const filterParams = useCallback(() => {
+    const params = new URLSearchParams();
+    if (serverTable.query.search) params.set('search', serverTable.query.search);
+    const method = (serverTable.quickFilterValues as any)?.method;
+    if (typeof method === 'string' && method.trim()) params.set('method', method.trim());
+    return params;
+  }, [serverTable.query.search, serverTable.quickFilterValues]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const params = filterParams();
+      params.set('limit', String(serverTable.query.pageSize));
+      params.set('offset', String((serverTable.query.page - 1) * serverTable.query.pageSize));
+      const data = (await (await fetchAudit(params)).json()) as AuditResponse;
+      setEntries(Array.isArray(data?.entries) ? data.entries : []);
+      setTotal(typeof data?.total === 'number' ? data.total : 0);
+    } catch (e) {
+      setError(e instanceof Error ? e : new Error('Failed to load AI audit log'));
+    } finally {
+      setLoading(false);
+    }
+  }, [filterParams, serverTable.query.page, serverTable.query.pageSize]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const exportAs = useCallback(
+    async (format: 'jsonl' | 'csv') => {
+      try {
+        setExporting(true);
+        const params = filterParams();
+        params.set('format', format);
+        const blob = await (await fetchAudit(params)).blob();
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `ai-audit-${new Date().toISOString().slice(0, 10)}.${format}`;
+        a.click();
+        URL.revokeObjectURL(url);
+      } catch (e) {
+        setError(e instanceof Error ? e : new Error('Failed to export AI audit log'));
+      } finally {
+        setExporting(false);
+      }
+    },
+    [filterParams]
+  );
+
+  const rows = useMemo(() => entries, [entries]);
+
+  const navigate = (path: string) => {
+    if (typeof window !== 'undefined') window.location.href = path;
+  };
+
+  return (
+    <Page
+      title="AI Audit Log"
+      description="Every request executed by the AI assistant, with who ran it and how it was approved"
+      actions={
+        <div className="flex gap-2 items-center">
+          <Button variant="secondary" onClick={() => exportAs('csv')} disabled={exporting}>
+            Export CSV
+          </Button>
+          <Button variant="secondary" onClick={() => exportAs('jsonl')} disabled={exporting}>
+            Export JSONL
+          </Button>
+          <Button variant="primary" onClick={refresh} disabled={loading}>
+            Refresh
+          </Button>
+        </div>
+      }
+    >
+      {error && (
+        <Alert variant="error" title="Error loading AI audit log">
+          {error.message}
+        </Alert>
+      )}
+      <Card>
+        <DataTable
+          loading={loading}
+          data={rows as any[]}
+          emptyMessage="No AI-executed requests recorded yet."
+          searchable
+          showColumnVisibility
+          onRefresh={refresh}
+          refreshing={loading}
+          searchDebounceMs={400}
+          total={total}
+          {...serverTable.dataTable}
+          columns={[
+            {
+              key: 'at',
+              label: 'When',
+              render: (value: unknown) => (
+                <span className="text-sm">{formatWhen(typeof value === 'string' ? value : null)}</span>
+              ),
+            },
+            {
+              key: 'email',
+              label: 'User',
+              render: (value: unknown, row: any) => (
+                <span className="text-sm" title={Array.isArray(row?.roles) ? row.roles.join(', ') : undefined}>
+                  {String(value || row?.userId || '—')}
+                </span>
+              ),
+            },
+            {
+              key: 'method',
+              label: 'Request',
+              render: (value: unknown, row: any) => (
+                <span className="font-mono text-sm">
+                  {String(value)} {String(row?.path || '')}
+                </span>
+              ),
+            },
+            {
+              key: 'toolName',
+              label: 'Tool',
+              render: (value: unknown, row: any) => (
+                <Badge variant="default">
+                  {String(value)}
+                  {typeof row?.stepIndex === 'number' ? ` #${row.stepIndex + 1}` : ''}
+                </Badge>
+              ),
+            },
+            {
+              key: 'approvalMode',
+              label: 'Approval',
+              render: (value: unknown) => (
+                <Badge variant={value === 'manual' ? 'info' : 'warning'}>{String(value || '—')}</Badge>
+              ),
+            },
+            {
+              key: 'status',
+              label: 'Status',
+              render: (value: unknown, row: any) => (
+                <Badge variant={statusVariant(typeof value === 'number' ? value : null)}>
+                  {typeof value === 'number' ? String(value) : row?.error ? 'error' : '—'}
+                </Badge>
+              ),
+            },
+            {
+              key: 'durationMs',
+              label: 'Duration',
+              render: (value: unknown) => <span className="text-sm">{typeof value === 'number' ? `${value} ms` : '—'}</span>,
+            },
+            {
+              key: 'correlationId',
+              label: 'Correlation ID',
+              render: (value: unknown) =>
+                value ? (
+                  <span
+                    role="button"
+                    tabIndex={0}
+                    className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                    onClick={() => navigate(`/admin/ai/traces/${encodeURIComponent(String(value))}`)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' || e.key === ' ') {
+                        navigate(`/admin/ai/traces/${encodeURIComponent(String(value))}`);
+                      }
+                    }}
+                  >
+                    {String(value)}
+                  </span>
+                ) : (
+                  <span className="text-gray-500">—</span>
+                ),
+            },
+          ]}
+        />
+      </Card>
+    </Page>
+  );
+}
+
+export default AiAudit;
@@ -0,0 +1,341 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useUi } from '@hit/ui-kit';
+import {
+  createSkill,
+  deleteSkill,
+  listSkills,
+  templateVariables,
+  updateSkill,
+  type Skill,
+  type SkillVariable,
+} from '../components/ai-skills';
+
+type Draft = {
+  id: string | null;
+  name: string;
+  title: string;
+  description: string;
+  template: string;
+  scope: 'user' | 'role';
+  /** Comma-separated in the form. */
+  roles: string;
+  variables: Record<string, SkillVariable>;
+};
+
+const EMPTY_DRAFT: Draft = {
+  id: null,
+  name: '',
+  title: '',
+  description: '',
+  template: '',
+  scope: 'role',
+  roles: '',
+  variables: {},
+};
+
+const fieldClass =
+  'w-full rounded border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-2 py-1 text-sm';
+
+function toDraft(skill: Skill): Draft {
+  return {
+    id: skill.id,
+    name: skill.name,
+    title: skill.title,
+    description: skill.description,
+    template: skill.template,
+    scope: skill.scope,
+    roles: skill.roles.join(', '),
+    variables: Object.fromEntries(skill.variables.map((v) => [v.name, v])),
+  };
+}
+
+function formatWhen(iso: string | null | undefined): string {
+  if (!iso) return '—';
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleString();
+}
+
+export function AiSkills() {
+  const { Page, Card, Button, DataTable, Alert, Badge } = useUi();
+  const [skills, setSkills] = useState<Skill[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await listSkills(true);
+      setSkills(Array.isArray(data?.items) ? data.items : []);
+    } catch (e) {
+      setError(e instanceof Error ? e : new Error('Failed to load skills'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const variableNames = useMemo(() => (draft ? templateVariables(draft.template) : []), [draft]);
+
+  const save = useCallback(async () => {
+    if (!draft) return;
+    const input = {
+      name: draft.name.trim(),
+      title: draft.title.trim(),
+      description: draft.description.trim(),
+      template: draft.template,
+      scope: draft.scope,
+      roles: draft.scope === 'role' ? draft.roles.split(',').map((r) => r.trim()).filter(Boolean) : [],
+      variables: variableNames.map((name) => ({ ...draft.variables[name], name })),
+    };
+    try {
+      setSaving(true);
+      setError(null);
+      if (draft.id) await updateSkill(draft.id, input);
+      else await createSkill(input);
+      setDraft(null);
+      await refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e : new Error('Failed to save skill'));
+    } finally {
+      setSaving(false);
+    }
+  }, [draft, refresh, variableNames]);
+
+  const remove = useCallback(
+    async (skill: Skill) => {
+      if (typeof window !== 'undefined' && !window.confirm(`Delete /${skill.name}?`)) return;
+      try {
+        setError(null);
+        await deleteSkill(skill.id);
+        if (draft?.id === skill.id) setDraft(null);
+        await refresh();
+      } catch (e) {
+        setError(e instanceof Error ? e : new Error('Failed to delete skill'));
+      }
+    },
+    [draft?.id, refresh]
+  );
+
+  const setVariable = (name: string, patch: Partial<SkillVariable>) =>
+    setDraft((d) => (d ? { ...d, variables: { ...d.variables, [name]: { ...d.variables[name], ...patch, name } } } : d));
+
+  return (
+    <Page
+      title="AI Skills"
+      description="Saved prompt templates that users insert into the assistant with /name"
+      actions={
+        <div className="flex gap-2 items-center">
+          <Button variant="secondary" onClick={() => setDraft({ ...EMPTY_DRAFT })} disabled={saving}>
+            New skill
+          </Button>
+          <Button variant="primary" onClick={refresh} disabled={loading}>
+            Refresh
+          </Button>
+        </div>
+      }
+    >
+      {error && (
+        <Alert variant="error" title="Error">
+          {error.message}
+        </Alert>
+      )}
+
+      {draft && (
+        <Card>
+          <div className="grid gap-3 md:grid-cols-2">
+            <label className="text-sm">
+              <div className="mb-1 font-semibold">Command</div>
+              <input
+                className={`${fieldClass} font-mono`}
+                value={draft.name}
+                placeholder="log-call"
+                onChange={(e) => setDraft({ ...draft, name: e.target.value.toLowerCase() })}
+              />
+            </label>
+            <label className="text-sm">
+              <div className="mb-1 font-semibold">Title</div>
+              <input
+                className={fieldClass}
+                value={draft.title}
+                placeholder="Log a call and create a follow-up"
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+              />
+            </label>
+            <label className="text-sm md:col-span-2">
+              <div className="mb-1 font-semibold">Description</div>
+              <input
+                className={fieldClass}
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              />
+            </label>
+            <label className="text-sm md:col-span-2">
+              <div className="mb-1 font-semibold">Prompt</div>
+              <textarea
+                className={`${fieldClass} font-mono`}
+                rows={5}
+                value={draft.template}
+                placeholder="Log a call with {{contact}} about {{topic}} and create a follow-up task for {{due}}."
+                onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+              />
+              <div className="text-xs text-gray-500 mt-1">Use {'{{name}}'} for values the user fills in when inserting.</div>
+            </label>
+            {variableNames.length > 0 && (
+              <div className="md:col-span-2 text-sm">
+                <div className="mb-1 font-semibold">Variables</div>
+                <div className="grid gap-2">
+                  {variableNames.map((name) => (
+                    <div key={name} className="grid gap-2 md:grid-cols-3 items-center">
+                      <span className="font-mono">{name}</span>
+                      <input
+                        className={fieldClass}
+                        placeholder="Label"
+                        value={draft.variables[name]?.label ?? ''}
+                        onChange={(e) => setVariable(name, { label: e.target.value })}
+                      />
+                      <input
+                        className={fieldClass}
+                        placeholder="Default"
+                        value={draft.variables[name]?.default ?? ''}
+                        onChange={(e) => setVariable(name, { default: e.target.value })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            <label className="text-sm">
+              <div className="mb-1 font-semibold">Visibility</div>
+              <select
+                className={fieldClass}
+                value={draft.scope}
+                onChange={(e) => setDraft({ ...draft, scope: e.target.value as Draft['scope'] })}
+              >
+                <option value="role">Shared with roles</option>
+                <option value="user">Only me</option>
+              </select>
+            </label>
+            {draft.scope === 'role' && (
+              <label className="text-sm">
+                <div className="mb-1 font-semibold">Roles</div>
+                <input
+                  className={fieldClass}
+                  value={draft.roles}
+                  placeholder="sales, support (empty = everyone)"
+                  onChange={(e) => setDraft({ ...draft, roles: e.target.value })}
+                />
+              </label>
+            )}
+          </div>
+          <div className="flex gap-2 mt-3">
+            <Button variant="primary" onClick={save} disabled={saving || !draft.name.trim() || !draft.template.trim()}>
+              {saving ? 'Saving…' : draft.id ? 'Save changes' : 'Create skill'}
+            </Button>
+            <Button variant="secondary" onClick={() => setDraft(null)} disabled={saving}>
+              Cancel
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      <Card>
+        <DataTable
+          loading={loading}
+          data={skills as any[]}
+          emptyMessage="No skills yet. Create one to give users a /command for a prompt they type often."
+          onRefresh={refresh}
+          refreshing={loading}
+          columns={[
+            {
+              key: 'name',
+              label: 'Command',
+              render: (value: unknown, row: any) => (
+                <span
+                  role="button"
+                  tabIndex={0}
+                  className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                  onClick={() => setDraft(toDraft(row as Skill))}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ' ') setDraft(toDraft(row as Skill));
+                  }}
+                >
+                  /{String(value)}
+                </span>
+              ),
+            },
+            {
+              key: 'title',
+              label: 'Title',
+              render: (value: unknown, row: any) => (
+                <span className="text-sm" title={String(row?.template || '')}>
+                  {String(value || '—')}
+                </span>
+              ),
+            },
+            {
+              key: 'scope',
+              label: 'Shared with',
+              render: (value: unknown, row: any) =>
+                value === 'role' ? (
+                  <span className="flex flex-wrap gap-1">
+                    {Array.isArray(row?.roles) && row.roles.length > 0 ? (
+                      row.roles.map((r: string) => (
+                        <Badge key={r} variant="info">
+                          {r}
+                        </Badge>
+                      ))
+                    ) : (
+                      <Badge variant="info">everyone</Badge>
+                    )}
+                  </span>
+                ) : (
+                  <Badge variant="default">private</Badge>
+                ),
+            },
+            {
+              key: 'variables',
+              label: 'Variables',
+              render: (value: unknown) => (
+                <span className="font-mono text-xs">
+                  {Array.isArray(value) && value.length > 0 ? value.map((v: any) => v.name).join(', ') : '—'}
+                </span>
+              ),
+            },
+            {
+              key: 'createdBy',
+              label: 'Author',
+              render: (value: unknown) => <span className="text-sm">{String(value || '—')}</span>,
+            },
+            {
+              key: 'updatedAt',
+              label: 'Updated',
+              render: (value: unknown) => (
+                <span className="text-sm">{formatWhen(typeof value === 'string' ? value : null)}</span>
+              ),
+            },
+            {
+              key: 'id',
+              label: '',
+              render: (_value: unknown, row: any) => (
+                <Button variant="secondary" onClick={() => remove(row as Skill)}>
+                  Delete
+                </Button>
+              ),
+            },
+          ]}
+        />
+      </Card>
+    </Page>
+  );
+}
+
+export default AiSkills;
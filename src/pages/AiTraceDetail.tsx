@@ -2,12 +2,31 @@
 
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { useUi } from '@hit/ui-kit';
+import { Markdown } from '../components/Markdown';
+import { useAiContext } from '../components/ai-context';
 
 type TraceDetailResponse = {
   enabled?: boolean;
   run?: Record<string, unknown> | null;
 };
 
+type SharedTranscriptResponse = {
+  id: string;
+  title: string;
+  createdAt: string;
+  pathname: string | null;
+  sharedBy: string;
+  expiresAt: string;
+  correlationIds: string[];
+  messages: Array<{
+    role: 'user' | 'assistant' | 'system';
+    content: string;
+    at?: string;
+    correlationId?: string;
+    approval?: { toolName: string; status: string; input: unknown; result: unknown };
+  }>;
+};
+
 function getAuthHeaders(): Record<string, string> {
   if (typeof window === 'undefined') return {};
   const token = localStorage.getItem('hit_token');
@@ -39,12 +58,140 @@ function JsonBlock({ value }: { value: unknown }) {
   );
 }
 
-export function AiTraceDetail(props: { correlationId: string; onNavigate?: (path: string) => void }) {
+async function fetchTranscript(token: string): Promise<SharedTranscriptResponse> {
+  const res = await fetch(`/api/ai/transcripts/${encodeURIComponent(token)}`, {
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+      ...getAuthHeaders(),
+    },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({ error: res.statusText }));
+    throw new Error(String((body as any)?.error || res.statusText || `Request failed: ${res.status}`));
+  }
+  return res.json();
+}
+
+/** Read-only transcript opened from a share link, shown beside the trace. */
+function SharedTranscript(props: { token: string; correlationId: string; navigate: (path: string) => void }) {
+  const { Card, Alert, Badge } = useUi();
+  const [transcript, setTranscript] = useState<SharedTranscriptResponse | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchTranscript(props.token)
+      .then((t) => {
+        if (!cancelled) setTranscript(t);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e : new Error('Failed to load transcript'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [props.token]);
+
+  if (error) {
+    return (
+      <Alert variant="error" title="Error loading shared transcript">
+        {error.message}
+      </Alert>
+    );
+  }
+  if (!transcript) return <Card>Loading transcript…</Card>;
+
+  return (
+    <Card>
+      <div className="mb-3">
+        <div className="font-semibold">{transcript.title}</div>
+        <div className="text-xs text-gray-500">
+          Shared by {transcript.sharedBy} · started {new Date(transcript.createdAt).toLocaleString()}
+          {transcript.pathname ? ` on ${transcript.pathname}` : ''} · link expires{' '}
+          {new Date(transcript.expiresAt).toLocaleDateString()}
+        </div>
+      </div>
+      <div className="flex flex-col gap-2 max-h-[70vh] overflow-auto">
+        {transcript.messages.map((m, i) => {
+          const current = Boolean(m.correlationId) && m.correlationId === props.correlationId;
+          return (
+            <div
+              key={i}
+              className={`rounded border p-2 text-sm ${
+                current ? 'border-blue-500' : 'border-gray-200 dark:border-gray-800'
+              } ${m.role === 'user' ? 'bg-blue-50 dark:bg-blue-950' : ''}`}
+            >
+              <div className="flex items-center gap-2 mb-1 text-xs text-gray-500">
+                <span className="font-semibold">{m.role === 'user' ? 'User' : m.role === 'assistant' ? 'Assistant' : 'System'}</span>
+                {m.at && <span>{new Date(m.at).toLocaleString()}</span>}
+                {m.correlationId && !current && (
+                  <span
+                    role="button"
+                    tabIndex={0}
+                    className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                    onClick={() =>
+                      props.navigate(
+                        `/admin/ai/traces/${encodeURIComponent(m.correlationId!)}?transcript=${encodeURIComponent(props.token)}`
+                      )
+                    }
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' || e.key === ' ') {
+                        props.navigate(
+                          `/admin/ai/traces/${encodeURIComponent(m.correlationId!)}?transcript=${encodeURIComponent(props.token)}`
+                        );
+                      }
+                    }}
+                  >
+                    {m.correlationId}
+                  </span>
+                )}
+                {current && <Badge variant="info">this trace</Badge>}
+              </div>
+              {m.role === 'user' ? <div className="whitespace-pre-wrap">{m.content}</div> : <Markdown text={m.content} />}
+              {m.approval && (
+                <details className="mt-2 text-xs">
+                  <summary className="cursor-pointer">
+                    Approval: {m.approval.toolName} — {m.approval.status}
+                  </summary>
+                  <JsonBlock value={{ input: m.approval.input, result: m.approval.result }} />
+                </details>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
+
+export function AiTraceDetail(props: {
+  correlationId: string;
+  /** Share-link token; shows the shared conversation next to the trace. Read from `?transcript=` when omitted. */
+  transcriptToken?: string;
+  onNavigate?: (path: string) => void;
+}) {
   const { Page, Card, Button, Alert, Badge } = useUi();
+  const transcriptToken = useMemo(() => {
+    if (props.transcriptToken) return props.transcriptToken;
+    if (typeof window === 'undefined') return null;
+    return new URLSearchParams(window.location.search).get('transcript');
+  }, [props.transcriptToken]);
   const [run, setRun] = useState<Record<string, unknown> | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
 
+  // Lets admins ask the assistant about the trace they are looking at.
+  useAiContext({
+    key: 'ai.trace',
+    getSnapshot: () => ({
+      correlationId: props.correlationId,
+      pack: run?.pack ?? null,
+      kind: run?.kind ?? null,
+      sharedTranscript: Boolean(transcriptToken),
+    }),
+  });
+
   const navigate = (path: string) => {
     if (props.onNavigate) props.onNavigate(path);
     else if (typeof window !== 'undefined') window.location.href = path;
@@ -101,9 +248,18 @@ export function AiTraceDetail(props: { correlationId: string; onNavigate?: (path
         <Badge variant="info">toolExecs: {toolExecs.length}</Badge>
       </div>
 
-      <Card>
-        <JsonBlock value={run} />
-      </Card>
+      {transcriptToken ? (
+        <div className="grid gap-3 lg:grid-cols-2">
+          <SharedTranscript token={transcriptToken} correlationId={props.correlationId} navigate={navigate} />
+          <Card>
+            <JsonBlock value={run} />
+          </Card>
+        </div>
+      ) : (
+        <Card>
+          <JsonBlock value={run} />
+        </Card>
+      )}
     </Page>
   );
 }
@@ -3,6 +3,13 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { useUi } from '@hit/ui-kit';
 import { useServerDataTableState } from '@hit/ui-kit/hooks/useServerDataTableState';
+import {
+  FEEDBACK_REASON_LABELS,
+  getFeedbackFor,
+  listFeedback,
+  type FeedbackSummary,
+} from '../components/ai-feedback';
+import { useClientAction, type RefreshViewAction, type SetTableFilterAction } from '../components/ai-actions';
 
 type RunSummary = {
   correlationId: string;
@@ -10,8 +17,19 @@ type RunSummary = {
   pack?: string | null;
   kind?: string | null;
   file?: string | null;
+  feedback?: FeedbackSummary | null;
 };
 
+/** '' shows every run; the others list only runs users have rated. */
+type FeedbackFilter = '' | 'rated' | 'up' | 'down';
+
+const FEEDBACK_FILTERS: Array<{ value: FeedbackFilter; label: string }> = [
+  { value: '', label: 'All runs' },
+  { value: 'rated', label: 'Rated' },
+  { value: 'up', label: '👍' },
+  { value: 'down', label: '👎' },
+];
+
 type RunsIndexResponse = {
   enabled?: boolean;
   runsDir?: string | null;
@@ -57,6 +75,7 @@ export function AiTraces() {
   const [total, setTotal] = useState<number>(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const [feedbackFilter, setFeedbackFilter] = useState<FeedbackFilter>('');
 
   const serverTable = useServerDataTableState({
     tableId: 'admin.ai.traces',
@@ -72,6 +91,17 @@ export function AiTraces() {
       setError(null);
       const limit = serverTable.query.pageSize;
       const offset = (serverTable.query.page - 1) * serverTable.query.pageSize;
+      if (feedbackFilter) {
+        // Feedback lives in this pack, not the AI module, so list the rated runs from it directly.
+        const params = new URLSearchParams({ limit: String(limit), offset: String(offset) });
+        if (feedbackFilter !== 'rated') params.set('rating', feedbackFilter);
+        if (serverTable.query.search) params.set('search', serverTable.query.search);
+        const data = await listFeedback(params);
+        const items = Array.isArray(data?.items) ? data.items : [];
+        setRuns(items.map((f) => ({ correlationId: f.correlationId, createdAt: f.lastAt, feedback: f })));
+        setTotal(typeof data?.total === 'number' ? data.total : 0);
+        return;
+      }
       const params = new URLSearchParams();
       params.set('limit', String(limit));
       params.set('offset', String(offset));
@@ -81,7 +111,16 @@ export function AiTraces() {
       if (typeof pack === 'string' && pack.trim()) params.set('pack', pack.trim());
       if (typeof kind === 'string' && kind.trim()) params.set('kind', kind.trim());
       const data = await fetchAi<RunsIndexResponse>(`/hit/ai/traces?${params.toString()}`);
-      setRuns(Array.isArray(data?.runs) ? data.runs : []);
+      const page = Array.isArray(data?.runs) ? data.runs : [];
+      let summaries: Record<string, FeedbackSummary> = {};
+      if (page.length > 0) {
+        try {
+          summaries = (await getFeedbackFor(page.map((r) => r.correlationId))).summaries || {};
+        } catch {
+          // traces are still useful without feedback annotations
+        }
+      }
+      setRuns(page.map((r) => ({ ...r, feedback: summaries[r.correlationId] ?? null })));
       setRunsDir(typeof data?.runsDir === 'string' ? data.runsDir : null);
       setTotal(typeof data?.total === 'number' ? data.total : 0);
     } catch (e) {
@@ -89,12 +128,24 @@ export function AiTraces() {
     } finally {
       setLoading(false);
     }
-  }, [serverTable.query.page, serverTable.query.pageSize, serverTable.query.search, serverTable.quickFilterValues]);
+  }, [feedbackFilter, serverTable.query.page, serverTable.query.pageSize, serverTable.query.search, serverTable.quickFilterValues]);
 
   useEffect(() => {
     refresh();
   }, [refresh]);
 
+  // Let the assistant refresh this table or switch its feedback filter.
+  useClientAction<RefreshViewAction>('refreshView', (action) => {
+    if (action.target && action.target !== 'admin.ai.traces') return false;
+    void refresh();
+  });
+  useClientAction<SetTableFilterAction>('setTableFilter', (action) => {
+    if (action.tableId !== 'admin.ai.traces') return false;
+    const feedback = action.filters?.feedback;
+    if (feedback !== '' && feedback !== 'rated' && feedback !== 'up' && feedback !== 'down') return false;
+    setFeedbackFilter(feedback);
+  });
+
   const rows = useMemo(() => runs, [runs]);
 
   const navigate = (path: string) => {
@@ -107,6 +158,16 @@ export function AiTraces() {
       description="Admin-only per-run telemetry for the Nexus + pack agents"
       actions={
         <div className="flex gap-2 items-center">
+          {FEEDBACK_FILTERS.map((f) => (
+            <Button
+              key={f.value || 'all'}
+              variant={feedbackFilter === f.value ? 'primary' : 'secondary'}
+              onClick={() => setFeedbackFilter(f.value)}
+              disabled={loading}
+            >
+              {f.label}
+            </Button>
+          ))}
           <Button variant="primary" onClick={refresh} disabled={loading}>
             Refresh
           </Button>
@@ -118,6 +179,11 @@ export function AiTraces() {
           Trace storage: <span className="font-mono">{runsDir}</span>
         </div>
       )}
+      {feedbackFilter && (
+        <div className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+          Showing runs with feedback, most recently rated first.
+        </div>
+      )}
       {error && (
         <Alert variant="error" title="Error loading AI traces">
           {error.message}
@@ -177,6 +243,31 @@ export function AiTraces() {
               render: (value: unknown) =>
                 value ? <Badge variant="default">{String(value)}</Badge> : <span className="text-gray-500">—</span>,
             },
+            {
+              key: 'feedback',
+              label: 'Feedback',
+              render: (value: unknown) => {
+                const f = value as FeedbackSummary | null | undefined;
+                if (!f) return <span className="text-gray-500">—</span>;
+                const comments = f.comments.map((c) => `${c.email}: ${c.comment}`).join('\n');
+                return (
+                  <span className="flex flex-wrap gap-1 items-center" title={comments || undefined}>
+                    {f.up > 0 && <Badge variant="success">👍 {f.up}</Badge>}
+                    {f.down > 0 && <Badge variant="error">👎 {f.down}</Badge>}
+                    {f.reasons.map((r) => (
+                      <Badge key={r} variant="default">
+                        {FEEDBACK_REASON_LABELS[r] ?? r}
+                      </Badge>
+                    ))}
+                    {f.comments.length > 0 && (
+                      <span className="text-xs text-gray-500">
+                        {f.comments.length} comment{f.comments.length === 1 ? '' : 's'}
+                      </span>
+                    )}
+                  </span>
+                );
+              },
+            },
           ]}
         />
       </Card>
@@ -1,3 +1,4 @@
 export { AiDebug } from './AiDebug';
 export { AiTraces } from './AiTraces';
-export { AiTraceDetail } from './AiTraceDetail';
\ No newline at end of file
+export { AiTraceDetail } from './AiTraceDetail';
+export { AiAudit } from './AiAudit';export { AiSkills } from './AiSkills';
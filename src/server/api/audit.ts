@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '../auth';
+import { auditTimeRange, getAuditSink, type AuditEntry } from '../lib/ai-audit';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const CSV_COLUMNS: Array<keyof AuditEntry> = [
+  'at',
+  'email',
+  'userId',
+  'roles',
+  'correlationId',
+  'toolName',
+  'stepIndex',
+  'method',
+  'path',
+  'approvalMode',
+  'status',
+  'durationMs',
+  'body',
+];
+
+// Spreadsheets evaluate cells starting with these as formulas; audit fields are user-supplied.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown): string {
+  if (value == null) return '';
+  let s = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (FORMULA_START.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * GET /api/ai/audit
+ * Search the AI execution audit trail (admin only).
+ * Supports `format=jsonl|csv` to export every matching entry.
+ */
+export async function GET(request: NextRequest) {
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
+  }
+  if (!auth.user.roles.includes('admin')) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const sink = getAuditSink();
+  if (!sink.search) {
+    return NextResponse.json({ error: 'The configured audit sink does not support search' }, { status: 501 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const format = (searchParams.get('format') || 'json').toLowerCase();
+  const exporting = format === 'jsonl' || format === 'csv';
+  const limitRaw = Number(searchParams.get('limit') || '50');
+  const offsetRaw = Number(searchParams.get('offset') || '0');
+  const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(500, Math.trunc(limitRaw))) : 50;
+  const offset = Number.isFinite(offsetRaw) ? Math.max(0, Math.trunc(offsetRaw)) : 0;
+  const from = searchParams.get('from') || undefined;
+  const to = searchParams.get('to') || undefined;
+  const range = auditTimeRange({ from, to });
+  if ('error' in range) {
+    return NextResponse.json({ error: range.error }, { status: 400 });
+  }
+
+  const result = await sink.search({
+    q: searchParams.get('search') || searchParams.get('q') || undefined,
+    userId: searchParams.get('user') || undefined,
+    method: searchParams.get('method') || undefined,
+    correlationId: searchParams.get('correlationId') || undefined,
+    from,
+    to,
+    limit: exporting ? Number.MAX_SAFE_INTEGER : limit,
+    offset: exporting ? 0 : offset,
+  });
+
+  if (format === 'jsonl') {
+    const text = result.entries.map((e) => JSON.stringify(e)).join('\n');
+    return new NextResponse(text ? `${text}\n` : '', {
+      headers: {
+        'Content-Type': 'application/x-ndjson',
+        'Content-Disposition': 'attachment; filename="ai-audit.jsonl"',
+      },
+    });
+  }
+  if (format === 'csv') {
+    const lines = [CSV_COLUMNS.join(','), ...result.entries.map((e) => CSV_COLUMNS.map((c) => csvCell(e[c])).join(','))];
+    return new NextResponse(`${lines.join('\n')}\n`, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="ai-audit.csv"',
+      },
+    });
+  }
+
+  return NextResponse.json({ entries: result.entries, total: result.total, limit, offset });
+}
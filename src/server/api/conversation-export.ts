@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '../auth';
+import { getConversationStore } from '../lib/ai-conversations';
+import {
+  parseTranscriptFormat,
+  transcriptToHtml,
+  transcriptToJson,
+  transcriptToMarkdown,
+} from '../lib/ai-transcript';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function fileName(title: string, ext: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'conversation';
+  return `ai-${slug}.${ext}`;
+}
+
+/**
+ * GET /api/ai/conversations/[id]/export?format=markdown|json|html
+ * Download one of the caller's conversations.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
+  }
+  const { id } = await context.params;
+  const format = parseTranscriptFormat(new URL(request.url).searchParams.get('format'));
+  if (!format) {
+    return NextResponse.json({ error: 'format must be one of: markdown, json, html' }, { status: 400 });
+  }
+
+  const conversation = await getConversationStore().get(auth.user.userId, id);
+  if (!conversation) {
+    return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+  }
+
+  if (format === 'json') {
+    return new NextResponse(JSON.stringify(transcriptToJson(conversation), null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName(conversation.title, 'json')}"`,
+      },
+    });
+  }
+  if (format === 'html') {
+    return new NextResponse(transcriptToHtml(conversation), {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName(conversation.title, 'html')}"`,
+        // The transcript is static; never run anything embedded in it.
+        'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'",
+      },
+    });
+  }
+  return new NextResponse(transcriptToMarkdown(conversation), {
+    headers: {
+      'Content-Type': 'text/markdown; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${fileName(conversation.title, 'md')}"`,
+    },
+  });
+}
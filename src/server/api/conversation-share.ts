@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '../auth';
+import { getConversationStore } from '../lib/ai-conversations';
+import { conversationCorrelationIds, issueShareToken } from '../lib/ai-transcript';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/ai/conversations/[id]/share
+ * Create a read-only link to one of the caller's conversations (admin only).
+ * The link opens the transcript beside the trace of its latest agent run.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
+  }
+  if (!auth.user.roles.includes('admin')) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+  const { id } = await context.params;
+
+  const conversation = await getConversationStore().get(auth.user.userId, id);
+  if (!conversation) {
+    return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+  }
+  const correlationIds = conversationCorrelationIds(conversation);
+  const correlationId = correlationIds[correlationIds.length - 1];
+  if (!correlationId) {
+    return NextResponse.json({ error: 'Conversation has no agent runs to trace yet' }, { status: 409 });
+  }
+
+  const { token, expiresAt } = issueShareToken(conversation, auth.user.email || auth.user.userId);
+  const url = `/admin/ai/traces/${encodeURIComponent(correlationId)}?transcript=${encodeURIComponent(token)}`;
+  return NextResponse.json({ token, url, correlationId, expiresAt: new Date(expiresAt).toISOString() }, { status: 201 });
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '../auth';
+import { getConversationStore } from '../lib/ai-conversations';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/ai/conversations/[id]
+ * One of the caller's conversations with all messages.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
+  }
+  const { id } = await context.params;
+  const conversation = await getConversationStore().get(auth.user.userId, id);
+  if (!conversation) {
+    return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+  }
+  return NextResponse.json(conversation);
+}
+
+/**
+ * PATCH /api/ai/conversations/[id]
+ * Rename (`title`) and/or replace the saved transcript (`messages`).
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
+  }
+  const { id } = await context.params;
+
+  let body: Record<string, unknown>;
+  try {
+    body = ((await request.json()) ?? {}) as Record<string, unknown>;
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (body.title !== undefined && (typeof body.title !== 'string' || !body.title.trim())) {
+    return NextResponse.json({ error: 'title must be a non-empty string' }, { status: 400 });
+  }
+  if (body.messages !== undefined && !Array.isArray(body.messages)) {
+    return NextResponse.json({ error: 'messages must be an array' }, { status: 400 });
+  }
+
+  const conversation = await getConversationStore().update(auth.user.userId, id, {
+    title: body.title as string | undefined,
+    messages: body.messages as any,
+  });
+  if (!conversation) {
+    return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+  }
+  return NextResponse.json(conversation);
+}
+
+/**
+ * DELETE /api/ai/conversations/[id]
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
+  }
+  const { id } = await context.params;
+  const deleted = await getConversationStore().delete(auth.user.userId, id);
+  if (!deleted) {
+    return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '../auth';
+import { getConversationStore } from '../lib/ai-conversations';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/ai/conversations
+ * The caller's conversations, most recently updated first (supports search/q, limit, offset).
+ */
+export async function GET(request: NextRequest) {
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const limitRaw = Number(searchParams.get('limit') || '50');
+  const offsetRaw = Number(searchParams.get('offset') || '0');
+  const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(200, Math.trunc(limitRaw))) : 50;
+  const offset = Number.isFinite(offsetRaw) ? Math.max(0, Math.trunc(offsetRaw)) : 0;
+
+  const result = await getConversationStore().list(auth.user.userId, {
+    q: searchParams.get('search') || searchParams.get('q') || undefined,
+    limit,
+    offset,
+  });
+  return NextResponse.json({ items: result.items, total: result.total, limit, offset });
+}
+
+/**
+ * POST /api/ai/conversations
+ * Start a conversation, optionally seeded with messages (used to import local history).
+ */
+export async function POST(request: NextRequest) {
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = ((await request.json()) ?? {}) as Record<string, unknown>;
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (body.messages !== undefined && !Array.isArray(body.messages)) {
+    return NextResponse.json({ error: 'messages must be an array' }, { status: 400 });
+  }
+
+  const conversation = await getConversationStore().create(auth.user.userId, {
+    title: typeof body.title === 'string' ? body.title : undefined,
+    pathname: typeof body.pathname === 'string' ? body.pathname : null,
+    messages: body.messages as any,
+    createdAt: typeof body.createdAt === 'string' ? body.createdAt : undefined,
+  });
+  return NextResponse.json(conversation, { status: 201 });
+}
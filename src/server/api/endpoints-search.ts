@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { extractUserFromRequest } from '../auth';
+import { authenticateRequest } from '../auth';
+import { getCatalogEndpoints } from '../lib/ai-catalog';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -32,9 +33,9 @@ function scoreEndpoint(q: string, ep: Endpoint): number {
 }
 
 export async function GET(request: NextRequest) {
-  const user = extractUserFromRequest(request);
-  if (!user) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
   }
 
   const { searchParams } = new URL(request.url);
@@ -43,12 +44,7 @@ export async function GET(request: NextRequest) {
   const limitRaw = Number(searchParams.get('limit') || '10');
   const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(50, Math.trunc(limitRaw))) : 10;
 
-  const origin = new URL(request.url).origin;
-  const resp = await fetch(`${origin}/api/ai/endpoints`, {
-    headers: { authorization: request.headers.get('authorization') || '' },
-  });
-  const data = await resp.json().catch(() => null);
-  const endpoints: Endpoint[] = Array.isArray((data as any)?.endpoints) ? (data as any).endpoints : [];
+  const { endpoints } = getCatalogEndpoints();
 
   const candidates = endpoints
     .map((ep) => ({ ep, score: scoreEndpoint(q, ep) }))
@@ -1,35 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import fs from 'node:fs';
-import path from 'node:path';
-import { extractUserFromRequest } from '../auth';
-import { discoverAppApiEndpoints } from '../lib/ai-endpoints';
+import { authenticateRequest } from '../auth';
+import { CATALOG_CACHE_CONTROL, etagMatches, getCatalogEndpoints } from '../lib/ai-catalog';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 
 export async function GET(request: NextRequest) {
-  const user = extractUserFromRequest(request);
-  if (!user) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
   }
 
-  // Prefer static catalog generated by `hit run`.
-  const projectRoot = process.cwd();
-  const capsPath = path.join(projectRoot, '.hit', 'generated', 'capabilities.json');
-  if (fs.existsSync(capsPath)) {
-    try {
-      const raw = fs.readFileSync(capsPath, 'utf8');
-      const caps = JSON.parse(raw);
-      return NextResponse.json(caps);
-    } catch {
-      // fall back
-    }
+  // Static catalog generated by `hit run`, or runtime discovery (dev convenience).
+  const { capabilities, etag } = getCatalogEndpoints();
+  const headers = { ETag: etag, 'Cache-Control': CATALOG_CACHE_CONTROL };
+  if (etagMatches(request.headers.get('if-none-match'), etag)) {
+    return new NextResponse(null, { status: 304, headers });
   }
-
-  // Fallback: runtime discovery (dev convenience)
-  const endpoints = discoverAppApiEndpoints(path.join(projectRoot));
-  return NextResponse.json({ generated: false, kind: 'hit-capabilities', endpoints });
+  return NextResponse.json(capabilities, { headers });
 }
-
-
-
@@ -9,19 +9,36 @@ const httpRequestInputSchema = z.object({
   query: z.record(z.string(), z.unknown()).nullable().optional(),
   body: z.record(z.string(), z.unknown()).nullable().optional(),
   approved: z.boolean().optional(),
+  approvalId: z.string().optional(),
+  approvalToken: z.string().optional(),
+  dryRun: z.boolean().optional(),
 });
 
 const httpBulkInputSchema = z.object({
   requests: z.array(z.object({
+    id: z.string().regex(/^[A-Za-z0-9_-]+$/).optional(),
     method: z.string().min(1),
     path: z.string().min(1),
     query: z.record(z.string(), z.unknown()).nullable().optional(),
     body: z.record(z.string(), z.unknown()).nullable().optional(),
   })).min(1),
+  mode: z.enum(["sequential", "atomic"]).optional(),
+  concurrency: z.number().int().min(1).optional(),
+  timeoutMs: z.number().int().min(1).optional(),
   approved: z.boolean().optional(),
+  approvalId: z.string().optional(),
+  approvalToken: z.string().optional(),
+  dryRun: z.boolean().optional(),
 });
 
-export const postBodySchema = z.object({
-  toolName: z.enum(["http.request", "http.bulk"]),
-  input: z.union([httpRequestInputSchema, httpBulkInputSchema]),
+const approvalGrantInputSchema = z.object({
+  approvalId: z.string().min(1),
 });
+
+const correlationIdSchema = z.string().optional();
+
+export const postBodySchema = z.discriminatedUnion("toolName", [
+  z.object({ toolName: z.literal("http.request"), input: httpRequestInputSchema, correlationId: correlationIdSchema }),
+  z.object({ toolName: z.literal("http.bulk"), input: httpBulkInputSchema, correlationId: correlationIdSchema }),
+  z.object({ toolName: z.literal("approval.grant"), input: approvalGrantInputSchema, correlationId: correlationIdSchema }),
+]);
@@ -1,6 +1,43 @@
+import crypto from 'node:crypto';
 import { NextRequest, NextResponse } from 'next/server';
-import { extractUserFromRequest } from '../auth';
-import { autoApproveDeleteEnabled, autoApproveWritesEnabled } from '../lib/ai-policy';
+import { authenticateRequest, type UserContext } from '../auth';
+import { getCatalog } from '../lib/ai-catalog';
+import { canonicalizeApiPath, matchMethodSpec, type MethodSpec } from '../lib/ai-methods';
+import {
+  APPROVAL_TTL_MS,
+  approverRoleError,
+  checkTwoPersonApproval,
+  completeTwoPersonApproval,
+  createTwoPersonApproval,
+  getTwoPersonApproval,
+  grantTwoPersonApproval,
+  issueApprovalToken,
+  redeemApprovalToken,
+} from '../lib/ai-approvals';
+import { recordAudit, redactForAudit } from '../lib/ai-audit';
+import {
+  isSuccess,
+  planBulk,
+  runAtomicBulk,
+  runSequentialBulk,
+  stepReferences,
+  type CheckResolvedStep,
+  type HttpResult,
+  type HttpStep,
+  type SendStep,
+} from '../lib/ai-bulk';
+import {
+  DEFAULT_APPROVER_ROLES,
+  evaluatePolicy,
+  loadAiPolicy,
+  mostRestrictive,
+  type LoadedPolicy,
+  type PolicyAction,
+  type PolicyDecision,
+} from '../lib/ai-policy';
+import { buildStepPreview, validateStep, type StepPreview } from '../lib/ai-preview';
+import type { SchemaIssue } from '../lib/ai-schema';
+import { postBodySchema } from './execute.schema';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -8,50 +45,200 @@ export const runtime = 'nodejs';
 type ExecuteRequest = {
   toolName: string;
   input?: Record<string, unknown>;
+  /** Agent run that proposed this call; recorded in the audit trail. */
+  correlationId?: string;
 };
 
 type BulkRequest = {
   requests: Array<{
+    /** Referenced by later steps as {{steps.<id>.response.<field>}}. */
+    id?: string;
     method: string;
     path: string;
     query?: Record<string, unknown> | null;
     body?: Record<string, unknown> | null;
   }>;
+  /** "atomic" stops at the first failure and rolls back completed writes. */
+  mode?: 'sequential' | 'atomic';
+  /** Parallel GETs in sequential mode (capped by HIT_AI_BULK_MAX_CONCURRENCY). */
+  concurrency?: number;
+  /** Per-request timeout (capped by HIT_AI_REQUEST_TIMEOUT_MS). */
+  timeoutMs?: number;
   approved?: boolean;
+  approvalId?: string;
+  approvalToken?: string;
 };
 
-async function httpRequest(
-  request: NextRequest,
-  input: Record<string, unknown>
-): Promise<{ status: number; body: any }> {
+type ExecuteContext = {
+  user: UserContext;
+  correlationId: string | null;
+  methods: MethodSpec[];
+  policy: LoadedPolicy;
+};
+
+type PolicyCheck = PolicyDecision & {
+  method: string;
+  path: string;
+  methodName: string | null;
+};
+
+function envInt(name: string, fallback: number): number {
+  const raw = Number(process.env[name]);
+  return Number.isFinite(raw) && raw > 0 ? Math.trunc(raw) : fallback;
+}
+
+function maxBulkConcurrency(): number {
+  return envInt('HIT_AI_BULK_MAX_CONCURRENCY', 8);
+}
+
+function maxRequestTimeoutMs(): number {
+  return envInt('HIT_AI_REQUEST_TIMEOUT_MS', 30_000);
+}
+
+function clampInt(value: unknown, min: number, max: number): number | undefined {
+  const n = typeof value === 'number' ? value : Number(value);
+  if (value == null || !Number.isFinite(n)) return undefined;
+  return Math.max(min, Math.min(max, Math.trunc(n)));
+}
+
+function loadExecuteContext(user: UserContext, correlationId: string | null): ExecuteContext {
+  const projectRoot = process.cwd();
+  return {
+    user,
+    correlationId,
+    methods: getCatalog(projectRoot).methods,
+    policy: loadAiPolicy(projectRoot),
+  };
+}
+
+function checkPolicy(ctx: ExecuteContext, method: string, pathRaw: string): PolicyCheck {
+  const spec = matchMethodSpec(ctx.methods, method, pathRaw);
+  const decision = evaluatePolicy(ctx.user, { httpMethod: method, path: pathRaw, spec }, ctx.policy);
+  return { ...decision, method, path: pathRaw, methodName: spec?.name ?? null };
+}
+
+function deniedBody(checks: PolicyCheck[]) {
+  const denials = checks.map((c) => ({
+    method: c.method,
+    path: c.path,
+    methodName: c.methodName,
+    ruleId: c.ruleId ?? null,
+    reason: c.reason || 'Not permitted for your role',
+  }));
+  const first = denials[0];
+  return {
+    error: `Not permitted: ${first.method} ${first.path} (${first.reason})`,
+    code: 'method_not_permitted',
+    denials,
+  };
+}
+
+function normalizeStep(input: Record<string, unknown>): HttpStep {
   const methodRaw = typeof input.method === 'string' ? input.method.toUpperCase() : 'GET';
   const method = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].includes(methodRaw) ? methodRaw : 'GET';
   const pathRaw = typeof input.path === 'string' ? input.path : '';
-  const approved = Boolean((input as any).approved);
+  const query = input.query && typeof input.query === 'object' ? (input.query as Record<string, unknown>) : null;
+  const body = input.body && typeof input.body === 'object' ? (input.body as Record<string, unknown>) : null;
+  return { method, path: pathRaw, query, body };
+}
+
+/**
+ * Rewrite a step to the canonical path the fetch will use, moving any query string
+ * into `query` (explicit `query` values win), so validation, policy, audit and the
+ * request itself all see the same target.
+ */
+function canonicalStep<T extends HttpStep>(step: T): { step: T } | { error: string } {
+  const canon = canonicalizeApiPath(step.path);
+  if (!canon.ok) return { error: canon.error };
+  const query = Object.keys(canon.query).length > 0 ? { ...canon.query, ...(step.query ?? {}) } : step.query;
+  return { step: { ...step, path: canon.path, query } };
+}
 
-  if (!pathRaw.startsWith('/api/')) {
-    return { status: 400, body: { error: "path must start with '/api/'" } };
+function valueAtIssuePath(step: HttpStep, issuePath: string): unknown {
+  let cur: unknown = step;
+  for (const part of issuePath.split('.')) {
+    if (!cur || typeof cur !== 'object') return undefined;
+    cur = (cur as Record<string, unknown>)[part];
   }
-  // Prevent recursive/self calls into AI control plane.
-  if (pathRaw.startsWith('/api/ai/')) {
-    return { status: 400, body: { error: 'Refusing to call /api/ai/* endpoints' } };
+  return cur;
+}
+
+/**
+ * Check a step's query and body against the schemas of the catalog method its
+ * path matches. Values that are still {{steps.*}} templates are skipped; they
+ * only get their real type once the batch runs.
+ */
+function catalogIssues(ctx: ExecuteContext, step: HttpStep): { methodName: string | null; issues: SchemaIssue[] } {
+  const spec = matchMethodSpec(ctx.methods, step.method, step.path);
+  let issues = validateStep(spec, step);
+  if (stepReferences(step).length > 0) {
+    issues = issues.filter((i) => {
+      const v = valueAtIssuePath(step, i.path);
+      return !(typeof v === 'string' && v.includes('{{'));
+    });
   }
+  return { methodName: spec?.name ?? null, issues };
+}
 
-  const requiresApproval = method !== 'GET';
-  const autoApprove = autoApproveWritesEnabled();
-  const forceApprove = method === 'DELETE' && !autoApproveDeleteEnabled();
-  if (requiresApproval && !approved && (forceApprove || !autoApprove)) {
+function invalidInputBody(methodName: string | null, issues: Array<SchemaIssue & { step?: number }>) {
+  const first = issues[0];
+  const where = first.path || '(root)';
+  return {
+    error: `Invalid input${methodName ? ` for ${methodName}` : ''}: ${where}: ${first.message}`,
+    code: 'invalid_input',
+    methodName,
+    issues,
+  };
+}
+
+/** `path` must already be canonical (see canonicalStep). */
+function validatePath(path: string): string | null {
+  if (!path.startsWith('/api/')) return "path must start with '/api/'";
+  // Prevent recursive/self calls into AI control plane.
+  if (path === '/api/ai' || path.startsWith('/api/ai/')) return 'Refusing to call /api/ai/* endpoints';
+  return null;
+}
+
+/**
+ * Apply the policy action to a drafted tool call. Returns null when the call may
+ * run now, otherwise the response to send back (a draft carrying a signed
+ * approval token, or an error when the presented token is not acceptable).
+ */
+function approvalGate(
+  ctx: ExecuteContext,
+  action: PolicyAction,
+  approverRoles: string[][],
+  toolName: string,
+  draftInput: Record<string, unknown>,
+  input: Record<string, unknown>
+): { status: number; body: any } | null {
+  if (action === 'auto_approve') return null;
+
+  const approvalToken = typeof (input as any).approvalToken === 'string' ? String((input as any).approvalToken) : '';
+  const approvalId = typeof (input as any).approvalId === 'string' ? String((input as any).approvalId) : '';
+  const twoPerson = action === 'require_two_person_approval';
+
+  if (!approvalToken || (twoPerson && !approvalId)) {
+    const pending = twoPerson ? createTwoPersonApproval(
+          ctx.user,
+          toolName,
+          draftInput,
+          approverRoles.length > 0 ? approverRoles : [DEFAULT_APPROVER_ROLES]
+        ) : null;
+    const issued = issueApprovalToken(ctx.user, toolName, draftInput, twoPerson ? APPROVAL_TTL_MS : undefined);
     return {
       status: 200,
       body: {
         requiresApproval: true,
+        approvalMode: twoPerson ? 'two_person' : 'single',
+        ...(pending ? { approvalId: pending.id } : {}),
+        expiresAt: new Date(issued.expiresAt).toISOString(),
         draft: {
-          toolName: 'http.request',
+          toolName,
           input: {
-            method,
-            path: pathRaw,
-            query: (input.query ?? null) as any,
-            body: (input.body ?? null) as any,
+            ...draftInput,
+            ...(pending ? { approvalId: pending.id } : {}),
+            approvalToken: issued.token,
             approved: false,
           },
         },
@@ -59,11 +246,36 @@ async function httpRequest(
     };
   }
 
+  if (twoPerson) {
+    const granted = checkTwoPersonApproval(approvalId, ctx.user, toolName, draftInput);
+    if (!granted.ok) {
+      return { status: 409, body: { error: granted.reason, code: 'two_person_approval_pending', approvalId } };
+    }
+  }
+
+  const redeemed = redeemApprovalToken(approvalToken, ctx.user, toolName, draftInput);
+  if (!redeemed.ok) {
+    return { status: 403, body: { error: redeemed.reason, code: 'approval_token_invalid' } };
+  }
+  if (twoPerson) completeTwoPersonApproval(approvalId);
+  return null;
+}
+
+async function sendHttp(
+  request: NextRequest,
+  step: HttpStep,
+  timeoutMs: number = maxRequestTimeoutMs()
+): Promise<HttpResult> {
+  const { method } = step;
+  // Every path reaching here was canonicalized; refuse anything URL parsing would still rewrite.
+  const canon = canonicalizeApiPath(step.path);
+  if (!canon.ok || canon.path !== step.path) {
+    throw new Error(`Refusing to send non-canonical path ${step.path}${canon.ok ? '' : ` (${canon.error})`}`);
+  }
   const origin = new URL(request.url).origin;
-  const url = new URL(pathRaw, origin);
-  const query = input.query && typeof input.query === 'object' ? (input.query as Record<string, any>) : null;
-  if (query) {
-    for (const [k, v] of Object.entries(query)) {
+  const url = new URL(step.path, origin);
+  if (step.query) {
+    for (const [k, v] of Object.entries(step.query)) {
       if (v == null) continue;
       url.searchParams.set(k, String(v));
     }
@@ -76,9 +288,9 @@ async function httpRequest(
   if (cookie) headers['cookie'] = cookie;
   headers['content-type'] = 'application/json';
 
-  const init: RequestInit = { method, headers };
+  const init: RequestInit = { method, headers, signal: AbortSignal.timeout(timeoutMs) };
   if (method !== 'GET') {
-    init.body = JSON.stringify((input as any).body ?? {});
+    init.body = JSON.stringify(step.body ?? {});
   }
 
   const resp = await fetch(url.toString(), init);
@@ -91,21 +303,177 @@ async function httpRequest(
   }
 
   return {
-    status: 200,
+    status: resp.status,
+    url: url.toString(),
+    method,
+    response: parsed,
+  };
+}
+
+async function auditedSend(
+  request: NextRequest,
+  ctx: ExecuteContext,
+  step: HttpStep,
+  meta: { toolName: string; stepIndex: number | null; approvalMode: 'auto' | 'manual'; timeoutMs?: number }
+): Promise<HttpResult> {
+  const started = Date.now();
+  let status: number | null = null;
+  let error: string | undefined;
+  try {
+    const res = await sendHttp(request, step, meta.timeoutMs);
+    status = typeof res?.status === 'number' ? res.status : null;
+    return res;
+  } catch (e) {
+    error = e instanceof Error ? e.message : 'Request failed';
+    throw e;
+  } finally {
+    await recordAudit({
+      id: crypto.randomUUID(),
+      at: new Date(started).toISOString(),
+      userId: ctx.user.userId,
+      email: ctx.user.email,
+      roles: ctx.user.roles,
+      correlationId: ctx.correlationId,
+      toolName: meta.toolName,
+      stepIndex: meta.stepIndex,
+      method: step.method,
+      path: step.path,
+      query: step.query ? (redactForAudit(step.query) as Record<string, unknown>) : null,
+      body: step.method === 'GET' ? null : redactForAudit(step.body),
+      approvalMode: meta.approvalMode,
+      status,
+      durationMs: Date.now() - started,
+      ...(error ? { error } : {}),
+    });
+  }
+}
+
+/** Agent-readable result for a call that got no response (already audited by auditedSend). */
+function sendFailure(step: HttpStep, e: unknown, timeoutMs: number): { status: number; body: any } {
+  if (e instanceof Error && (e.name === 'TimeoutError' || e.name === 'AbortError')) {
+    return {
+      status: 504,
+      body: {
+        error: 'timeout',
+        message: `${step.method} ${step.path} did not respond within ${timeoutMs}ms`,
+        timeoutMs,
+        method: step.method,
+        path: step.path,
+      },
+    };
+  }
+  return {
+    status: 502,
     body: {
-      status: resp.status,
-      url: url.toString(),
-      method,
-      response: parsed,
+      error: 'request_failed',
+      message: e instanceof Error ? e.message : 'Request failed',
+      method: step.method,
+      path: step.path,
     },
   };
 }
 
+/**
+ * Dry-run one step: validate it against its catalog schemas and, for
+ * PUT/PATCH/DELETE, read the current resource so the caller gets a before/after diff.
+ *
+ * The read is the only request a dry run sends. It is audited, and skipped when the
+ * call itself would need approval, when the input is invalid, or when the policy
+ * does not auto-approve the GET, so a preview never reveals what a real call would gate.
+ */
+async function previewStep(
+  request: NextRequest,
+  ctx: ExecuteContext,
+  step: HttpStep,
+  meta: { toolName: string; stepIndex: number | null; action: PolicyAction; timeoutMs?: number }
+): Promise<StepPreview> {
+  const spec = matchMethodSpec(ctx.methods, step.method, step.path);
+  let current: { value: unknown } | { error: string } | null = null;
+  if (step.method === 'PUT' || step.method === 'PATCH' || step.method === 'DELETE') {
+    const readAction = checkPolicy(ctx, 'GET', step.path).action;
+    if (stepReferences(step).length > 0) {
+      current = { error: 'Depends on earlier steps; resolved when the batch runs' };
+    } else if (meta.action !== 'auto_approve') {
+      current = { error: `Not read: this call needs approval (${meta.action})` };
+    } else if (catalogIssues(ctx, step).issues.length > 0) {
+      current = { error: 'Not read: the input is invalid' };
+    } else if (readAction !== 'auto_approve') {
+      current = { error: `Not read: GET ${step.path} is not auto-approved (${readAction})` };
+    } else {
+      const read: HttpStep = { method: 'GET', path: step.path, query: step.query, body: null };
+      try {
+        const res = await auditedSend(request, ctx, read, {
+          toolName: `${meta.toolName}.preview`,
+          stepIndex: meta.stepIndex,
+          approvalMode: 'auto',
+          timeoutMs: meta.timeoutMs,
+        });
+        current = isSuccess(res.status) ? { value: res.response } : { error: `GET ${step.path} returned ${res.status}` };
+      } catch (e) {
+        current = { error: e instanceof Error ? e.message : 'Failed to read current resource' };
+      }
+    }
+  }
+  return buildStepPreview(spec, step, current);
+}
+
+async function httpRequest(
+  request: NextRequest,
+  ctx: ExecuteContext,
+  input: Record<string, unknown>
+): Promise<{ status: number; body: any }> {
+  const canon = canonicalStep(normalizeStep(input));
+  if ('error' in canon) {
+    return { status: 400, body: { error: canon.error } };
+  }
+  const { step } = canon;
+  const pathError = validatePath(step.path);
+  if (pathError) {
+    return { status: 400, body: { error: pathError } };
+  }
+
+  const check = checkPolicy(ctx, step.method, step.path);
+  if (check.action === 'deny') {
+    return { status: 403, body: deniedBody([check]) };
+  }
+
+  if ((input as any).dryRun === true) {
+    const preview = await previewStep(request, ctx, step, { toolName: 'http.request', stepIndex: null, action: check.action });
+    return { status: 200, body: { dryRun: true, approval: check.action, preview } };
+  }
+
+  const validation = catalogIssues(ctx, step);
+  if (validation.issues.length > 0) {
+    return { status: 400, body: invalidInputBody(validation.methodName, validation.issues) };
+  }
+
+  const gated = approvalGate(
+    ctx,
+    check.action,
+    check.approverRoles ? [check.approverRoles] : [],
+    'http.request',
+    { ...step },
+    input
+  );
+  if (gated) return gated;
+
+  const approvalMode = check.action === 'auto_approve' ? 'auto' : 'manual';
+  const timeoutMs = maxRequestTimeoutMs();
+  try {
+    return {
+      status: 200,
+      body: await auditedSend(request, ctx, step, { toolName: 'http.request', stepIndex: null, approvalMode, timeoutMs }),
+    };
+  } catch (e) {
+    return sendFailure(step, e, timeoutMs);
+  }
+}
+
 async function httpBulk(
   request: NextRequest,
+  ctx: ExecuteContext,
   input: Record<string, unknown>
 ): Promise<{ status: number; body: any }> {
-  const approved = Boolean((input as any).approved);
   const reqs = (input as any).requests as BulkRequest['requests'];
   if (!Array.isArray(reqs) || reqs.length === 0) {
     return { status: 400, body: { error: 'requests[] is required' } };
@@ -114,59 +482,173 @@ async function httpBulk(
     return { status: 400, body: { error: 'Too many requests (max 50)' } };
   }
 
-  const autoApprove = autoApproveWritesEnabled();
-  const anyWrite = reqs.some((r) => String(r?.method || '').toUpperCase() !== 'GET');
-  const anyDelete = reqs.some((r) => String(r?.method || '').toUpperCase() === 'DELETE');
-  const forceApprove = anyDelete && !autoApproveDeleteEnabled();
+  const steps: HttpStep[] = [];
+  for (let i = 0; i < reqs.length; i++) {
+    const r = reqs[i];
+    const step = normalizeStep((r ?? {}) as Record<string, unknown>);
+    const canon = canonicalStep(typeof r?.id === 'string' && r.id ? { id: r.id, ...step } : step);
+    if ('error' in canon) {
+      return { status: 400, body: { error: `requests[${i}]: ${canon.error}` } };
+    }
+    steps.push(canon.step);
+  }
+  for (let i = 0; i < steps.length; i++) {
+    const pathError = validatePath(steps[i].path);
+    if (pathError) {
+      return { status: 400, body: { error: `requests[${i}]: ${pathError}` } };
+    }
+  }
+
+  // Reject unknown references and cycles before anything is drafted or run.
+  const plan = planBulk(steps);
+  if (!plan.ok) {
+    return { status: 400, body: { error: plan.errors[0], errors: plan.errors } };
+  }
 
-  if (anyWrite && !approved && (forceApprove || !autoApprove)) {
+  const checks = steps.map((st) => checkPolicy(ctx, st.method, st.path));
+  const denied = checks.filter((c) => c.action === 'deny');
+  if (denied.length > 0) {
+    return { status: 403, body: deniedBody(denied) };
+  }
+
+  const mode = (input as any).mode === 'atomic' ? 'atomic' : 'sequential';
+  const concurrency = clampInt((input as any).concurrency, 1, maxBulkConcurrency());
+  const timeoutMs = clampInt((input as any).timeoutMs, 1, maxRequestTimeoutMs());
+  const action = mostRestrictive(checks.map((c) => c.action));
+  const draftInput: Record<string, unknown> = { requests: steps };
+  if (mode === 'atomic') draftInput.mode = mode;
+  if (concurrency !== undefined) draftInput.concurrency = concurrency;
+  if (timeoutMs !== undefined) draftInput.timeoutMs = timeoutMs;
+  if ((input as any).dryRun === true) {
+    const previews: StepPreview[] = [];
+    for (let i = 0; i < steps.length; i++) {
+      previews.push(await previewStep(request, ctx, steps[i], { toolName: 'http.bulk', stepIndex: i, action, timeoutMs }));
+    }
     return {
       status: 200,
       body: {
-        requiresApproval: true,
-        draft: {
-          toolName: 'http.bulk',
-          input: {
-            requests: reqs,
-            approved: false,
-          },
-        },
+        dryRun: true,
+        approval: action,
+        order: plan.order,
+        valid: previews.every((p) => p.valid),
+        steps: previews,
       },
     };
   }
 
-  const results: any[] = [];
-  let ok = 0;
-  let failed = 0;
-  for (const r of reqs) {
-    const res = await httpRequest(request, {
-      method: r.method,
-      path: r.path,
-      query: r.query ?? null,
-      body: r.body ?? null,
-      approved: true,
-    });
-    results.push(res.body);
-    const st = (res.body as any)?.status;
-    if (typeof st === 'number' && st >= 200 && st < 300) ok += 1;
-    else failed += 1;
+  const issues: Array<SchemaIssue & { step: number }> = [];
+  const methodNames = new Set<string>();
+  steps.forEach((st, i) => {
+    const validation = catalogIssues(ctx, st);
+    if (validation.issues.length === 0) return;
+    if (validation.methodName) methodNames.add(validation.methodName);
+    for (const issue of validation.issues) {
+      issues.push({ step: i, path: `requests[${i}].${issue.path}`, message: issue.message });
+    }
+  });
+  if (issues.length > 0) {
+    return { status: 400, body: invalidInputBody(methodNames.size === 1 ? [...methodNames][0] : null, issues) };
   }
 
+  const gated = approvalGate(
+    ctx,
+    action,
+    checks.flatMap((c) => (c.approverRoles ? [c.approverRoles] : [])),
+    'http.bulk',
+    draftInput,
+    input
+  );
+  if (gated) return gated;
+
+  const approvalMode = action === 'auto_approve' ? 'auto' : 'manual';
+  // Pre-image reads and compensating writes are calls the batch never listed: each must
+  // pass policy on its own and may not need more approval than the batch was given.
+  // Throwing here makes runAtomicBulk skip the step or report it as not rolled back.
+  const checkDerived = (step: HttpStep): HttpStep => {
+    const canon = canonicalStep(step);
+    const pathError = 'error' in canon ? canon.error : validatePath(canon.step.path);
+    if ('error' in canon || pathError) throw new Error(`${step.method} ${step.path} rejected: ${pathError}`);
+    const check = checkPolicy(ctx, canon.step.method, canon.step.path);
+    if (mostRestrictive([action, check.action]) !== action) {
+      throw new Error(`${canon.step.method} ${canon.step.path} is not permitted by policy (${check.action})`);
+    }
+    return canon.step;
+  };
+
+  const send: SendStep = async (step, meta) => {
+    const toolName =
+      meta.kind === 'preimage' ? 'http.bulk.preimage' : meta.kind === 'rollback' ? 'http.bulk.rollback' : 'http.bulk';
+    const checked = meta.kind === 'step' ? step : checkDerived(step);
+    return auditedSend(request, ctx, checked, { toolName, stepIndex: meta.stepIndex, approvalMode, timeoutMs });
+  };
+
+  // Values substituted from earlier responses can change where a step goes; the resolved
+  // step must still be a permitted path with the same method and decision that was approved.
+  const checkResolved: CheckResolvedStep = (resolved, i) => {
+    const canon = canonicalStep(resolved);
+    const pathError = 'error' in canon ? canon.error : validatePath(canon.step.path);
+    if ('error' in canon || pathError) return { error: `Resolved path ${resolved.path} rejected: ${pathError}` };
+    const check = checkPolicy(ctx, canon.step.method, canon.step.path);
+    if (check.action !== checks[i].action || check.methodName !== checks[i].methodName) {
+      return {
+        error: `Resolved path ${canon.step.path} changes the approved call (${checks[i].methodName ?? checks[i].path}: ${checks[i].action} → ${check.methodName ?? check.path}: ${check.action})`,
+      };
+    }
+    return canon;
+  };
+
+  // Atomic batches always run one step at a time so rollback order is well defined.
+  const outcome =
+    mode === 'atomic'
+      ? await runAtomicBulk(steps, plan, send, { checkResolved })
+      : await runSequentialBulk(steps, plan, send, { concurrency, checkResolved });
+  return { status: 200, body: outcome };
+}
+
+function grantApproval(ctx: ExecuteContext, input: Record<string, unknown>): { status: number; body: any } {
+  const approvalId = typeof input.approvalId === 'string' ? input.approvalId : '';
+  if (!approvalId) {
+    return { status: 400, body: { error: 'approvalId is required' } };
+  }
+  const pending = getTwoPersonApproval(approvalId);
+  if (!pending) {
+    return { status: 404, body: { error: 'Approval not found or expired' } };
+  }
+
+  // The second approver needs an approver role for every gated method...
+  const roleError = approverRoleError(pending, ctx.user);
+  if (roleError) {
+    return { status: 403, body: { error: roleError, code: 'approver_role_required', approvalId } };
+  }
+
+  // ...and must themselves be allowed to call every method in the draft.
+  const steps =
+    pending.toolName === 'http.bulk'
+      ? ((pending.input as any).requests as HttpStep[])
+      : [pending.input as unknown as HttpStep];
+  const denied = steps.map((st) => checkPolicy(ctx, st.method, st.path)).filter((c) => c.action === 'deny');
+  if (denied.length > 0) {
+    return { status: 403, body: deniedBody(denied) };
+  }
+
+  const granted = grantTwoPersonApproval(approvalId, ctx.user);
+  if (!granted.ok) {
+    return { status: 409, body: { error: granted.reason, code: 'two_person_approval_pending', approvalId } };
+  }
   return {
     status: 200,
     body: {
-      status: failed === 0 ? 200 : 207,
-      ok,
-      failed,
-      results,
+      approvalId,
+      grantedBy: ctx.user.userId,
+      draft: { toolName: pending.toolName, input: pending.input },
     },
   };
 }
 
 export async function POST(request: NextRequest) {
-  const user = extractUserFromRequest(request);
-  if (!user) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
   }
 
   let body: ExecuteRequest;
@@ -176,15 +658,34 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
   }
 
+  const parsed = postBodySchema.safeParse(body);
+  // Unknown tool names fall through to the 404 below.
+  if (!parsed.success && !parsed.error.issues.some((i) => i.path.length === 1 && i.path[0] === 'toolName')) {
+    const issues = parsed.error.issues.map((i) => ({ path: i.path.map(String).join('.'), message: i.message }));
+    return NextResponse.json(
+      { error: `Invalid request: ${issues[0]?.path || '(root)'}: ${issues[0]?.message}`, code: 'invalid_input', issues },
+      { status: 400 }
+    );
+  }
+
   const toolName = body.toolName;
   const input = (body.input ?? {}) as Record<string, unknown>;
+  const correlationId =
+    typeof body.correlationId === 'string' && body.correlationId.trim()
+      ? body.correlationId.trim()
+      : request.headers.get('x-correlation-id');
+  const ctx = loadExecuteContext(auth.user, correlationId);
 
   if (toolName === 'http.request') {
-    const result = await httpRequest(request, input);
+    const result = await httpRequest(request, ctx, input);
     return NextResponse.json(result.body, { status: result.status });
   }
   if (toolName === 'http.bulk') {
-    const result = await httpBulk(request, input);
+    const result = await httpBulk(request, ctx, input);
+    return NextResponse.json(result.body, { status: result.status });
+  }
+  if (toolName === 'approval.grant') {
+    const result = grantApproval(ctx, input);
     return NextResponse.json(result.body, { status: result.status });
   }
 
@@ -0,0 +1,115 @@
+import crypto from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '../auth';
+import {
+  FEEDBACK_REASONS,
+  MAX_FEEDBACK_COMMENT,
+  getFeedbackStore,
+  isFeedbackRating,
+  isFeedbackReason,
+  searchFeedback,
+  summarizeFeedback,
+  type FeedbackEntry,
+} from '../lib/ai-feedback';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const CORRELATION_ID_RE = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * POST /api/ai/feedback
+ * Rate the assistant reply produced by an agent run.
+ * Body: { correlationId, rating: 'up'|'down', reason?, comment?, conversationId? }
+ */
+export async function POST(request: NextRequest) {
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = ((await request.json()) ?? {}) as Record<string, unknown>;
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { correlationId, rating, reason, comment, conversationId } = body;
+  if (typeof correlationId !== 'string' || !CORRELATION_ID_RE.test(correlationId)) {
+    return NextResponse.json({ error: 'correlationId is required' }, { status: 400 });
+  }
+  if (!isFeedbackRating(rating)) {
+    return NextResponse.json({ error: "rating must be 'up' or 'down'" }, { status: 400 });
+  }
+  if (reason != null && !isFeedbackReason(reason)) {
+    return NextResponse.json({ error: `reason must be one of: ${FEEDBACK_REASONS.join(', ')}` }, { status: 400 });
+  }
+  if (comment != null && typeof comment !== 'string') {
+    return NextResponse.json({ error: 'comment must be a string' }, { status: 400 });
+  }
+
+  const entry: FeedbackEntry = {
+    id: crypto.randomUUID(),
+    at: new Date().toISOString(),
+    userId: auth.user.userId,
+    email: auth.user.email,
+    correlationId,
+    rating,
+    reason: reason ?? null,
+    comment: typeof comment === 'string' && comment.trim() ? comment.trim().slice(0, MAX_FEEDBACK_COMMENT) : null,
+    conversationId: typeof conversationId === 'string' && conversationId ? conversationId.slice(0, 64) : null,
+  };
+  await getFeedbackStore().append(entry);
+  return NextResponse.json(entry, { status: 201 });
+}
+
+/**
+ * GET /api/ai/feedback
+ * Feedback per agent run (admin only).
+ * - `correlationIds=a,b,c` returns `{ summaries }` keyed by correlationId, for annotating a trace page.
+ * - Otherwise lists rated runs, newest feedback first (supports rating, reason, search/q, limit, offset).
+ */
+export async function GET(request: NextRequest) {
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
+  }
+  if (!auth.user.roles.includes('admin')) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const ids = searchParams.get('correlationIds');
+  if (ids != null) {
+    const wanted = ids
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean)
+      .slice(0, 500);
+    const summaries = summarizeFeedback(await getFeedbackStore().list(wanted));
+    return NextResponse.json({ summaries: Object.fromEntries(summaries.map((s) => [s.correlationId, s])) });
+  }
+
+  const rating = searchParams.get('rating');
+  const reason = searchParams.get('reason');
+  if (rating && !isFeedbackRating(rating)) {
+    return NextResponse.json({ error: "rating must be 'up' or 'down'" }, { status: 400 });
+  }
+  if (reason && !isFeedbackReason(reason)) {
+    return NextResponse.json({ error: `reason must be one of: ${FEEDBACK_REASONS.join(', ')}` }, { status: 400 });
+  }
+  const limitRaw = Number(searchParams.get('limit') || '50');
+  const offsetRaw = Number(searchParams.get('offset') || '0');
+  const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(500, Math.trunc(limitRaw))) : 50;
+  const offset = Number.isFinite(offsetRaw) ? Math.max(0, Math.trunc(offsetRaw)) : 0;
+
+  const result = await searchFeedback({
+    q: searchParams.get('search') || searchParams.get('q') || undefined,
+    rating: isFeedbackRating(rating) ? rating : undefined,
+    reason: isFeedbackReason(reason) ? reason : undefined,
+    limit,
+    offset,
+  });
+  return NextResponse.json({ items: result.items, total: result.total, limit, offset });
+}
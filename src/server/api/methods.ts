@@ -1,27 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { extractUserFromRequest } from '../auth';
-import { buildMethodCatalog, loadCapabilitiesFromDisk } from '../lib/ai-methods';
+import { authenticateRequest } from '../auth';
+import { CATALOG_CACHE_CONTROL, etagMatches, getCatalog } from '../lib/ai-catalog';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 
 export async function GET(request: NextRequest) {
-  const user = extractUserFromRequest(request);
-  if (!user) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
   }
 
-  const projectRoot = process.cwd();
-  const caps = loadCapabilitiesFromDisk(projectRoot);
-  const endpoints = Array.isArray(caps?.endpoints) ? caps?.endpoints : [];
+  const catalog = getCatalog();
+  const headers = { ETag: catalog.etag, 'Cache-Control': CATALOG_CACHE_CONTROL };
+  if (etagMatches(request.headers.get('if-none-match'), catalog.etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
 
-  const methods = buildMethodCatalog({ endpoints });
-  return NextResponse.json({
-    generated: Boolean(caps?.generated),
-    kind: 'hit-method-catalog',
-    methods,
-  });
+  return NextResponse.json(
+    {
+      generated: Boolean(catalog.capabilities?.generated),
+      kind: 'hit-method-catalog',
+      methods: catalog.methods,
+    },
+    { headers }
+  );
 }
-
-
-
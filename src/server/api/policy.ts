@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '../auth';
+import { loadAiPolicy } from '../lib/ai-policy';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/ai/policy
+ * Read-only view of the AI execution policy currently in force (admin only).
+ */
+export async function GET(request: NextRequest) {
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
+  }
+  if (!auth.user.roles.includes('admin')) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const loaded = loadAiPolicy(process.cwd());
+  return NextResponse.json({
+    kind: 'hit-ai-policy',
+    source: loaded.source,
+    path: loaded.path,
+    environment: loaded.environment,
+    valid: loaded.source !== 'invalid',
+    errors: loaded.errors ?? [],
+    policy: loaded.policy,
+  });
+}
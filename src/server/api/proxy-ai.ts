@@ -5,7 +5,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { extractUserFromRequest } from '../auth';
+import { authenticateRequest } from '../auth';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -37,9 +37,12 @@ function getClientIP(req: NextRequest): string | null {
 }
 
 async function proxyRequest(req: NextRequest, pathSegments: string[], method: string): Promise<NextResponse> {
-  const user = extractUserFromRequest(req);
-  if (!user) {
-    return NextResponse.json({ error: 'Unauthorized - authentication required for AI features' }, { status: 401 });
+  const auth = authenticateRequest(req);
+  if (!auth.ok) {
+    return NextResponse.json(
+      { error: 'Unauthorized - authentication required for AI features', reason: auth.reason },
+      { status: 401 }
+    );
   }
 
   const moduleUrl = getAiModuleUrl();
@@ -54,6 +57,8 @@ async function proxyRequest(req: NextRequest, pathSegments: string[], method: st
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
   };
+  const accept = req.headers.get('accept');
+  if (accept) headers['Accept'] = accept;
 
   // Forward auth header (or synthesize from cookie)
   let authHeader = req.headers.get('authorization');
@@ -81,7 +86,8 @@ async function proxyRequest(req: NextRequest, pathSegments: string[], method: st
   }
 
   try {
-    const fetchOptions: RequestInit = { method, headers, redirect: 'manual' };
+    // Aborting the client request (e.g. the overlay's Stop button) cancels the upstream call.
+    const fetchOptions: RequestInit = { method, headers, redirect: 'manual', signal: req.signal };
     if (['POST', 'PUT', 'PATCH', 'DELETE'].includes(method)) {
       const body = await req.text().catch(() => '');
       if (body) fetchOptions.body = body;
@@ -95,6 +101,21 @@ async function proxyRequest(req: NextRequest, pathSegments: string[], method: st
       }
     }
 
+    // Stream server-sent events through as they arrive instead of buffering the body.
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.toLowerCase().includes('text/event-stream') && response.body) {
+      return new NextResponse(response.body, {
+        status: response.status,
+        headers: {
+          'Content-Type': contentType,
+          'Cache-Control': 'no-cache, no-transform',
+          Connection: 'keep-alive',
+          'X-Accel-Buffering': 'no',
+          'X-Proxied-From': 'ai',
+        },
+      });
+    }
+
     const responseText = await response.text();
     let responseBody: unknown;
     try {
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '../auth';
+import { buildSkill, canEditSkill, canViewSkill, getSkillStore } from '../lib/ai-skills';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/ai/skills/[id]
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
+  }
+  const { id } = await context.params;
+  const skill = await getSkillStore().get(id);
+  if (!skill || !(canViewSkill(auth.user, skill) || auth.user.roles.includes('admin'))) {
+    return NextResponse.json({ error: 'Skill not found' }, { status: 404 });
+  }
+  return NextResponse.json(skill);
+}
+
+/**
+ * PATCH /api/ai/skills/[id]
+ * Update any of name, title, description, template, variables, scope, roles.
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
+  }
+  const { id } = await context.params;
+
+  let body: Record<string, unknown>;
+  try {
+    body = ((await request.json()) ?? {}) as Record<string, unknown>;
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const store = getSkillStore();
+  const existing = await store.get(id);
+  if (!existing || !(canViewSkill(auth.user, existing) || auth.user.roles.includes('admin'))) {
+    return NextResponse.json({ error: 'Skill not found' }, { status: 404 });
+  }
+  if (!canEditSkill(auth.user, existing)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const built = buildSkill(auth.user, body, existing);
+  if (!built.ok) {
+    return NextResponse.json({ error: built.error }, { status: 400 });
+  }
+  const saved = await store.save(built.skill);
+  if (!saved.ok) {
+    return NextResponse.json({ error: `A skill named /${built.skill.name} already exists` }, { status: 409 });
+  }
+  return NextResponse.json(built.skill);
+}
+
+/**
+ * DELETE /api/ai/skills/[id]
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
+  }
+  const { id } = await context.params;
+  const store = getSkillStore();
+  const existing = await store.get(id);
+  if (!existing || !(canViewSkill(auth.user, existing) || auth.user.roles.includes('admin'))) {
+    return NextResponse.json({ error: 'Skill not found' }, { status: 404 });
+  }
+  if (!canEditSkill(auth.user, existing)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+  await store.delete(id);
+  return NextResponse.json({ ok: true });
+}
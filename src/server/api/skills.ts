@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '../auth';
+import { buildSkill, canViewSkill, getSkillStore, type Skill } from '../lib/ai-skills';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+function byScopeThenName(a: Skill, b: Skill): number {
+  if (a.scope !== b.scope) return a.scope === 'user' ? -1 : 1;
+  return a.name.localeCompare(b.name);
+}
+
+/**
+ * GET /api/ai/skills
+ * Prompt templates available to the caller: their own, then those shared with their roles.
+ * Admins can pass `all=1` to list every skill (for the management page).
+ */
+export async function GET(request: NextRequest) {
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const all = searchParams.get('all') === '1' || searchParams.get('all') === 'true';
+  if (all && !auth.user.roles.includes('admin')) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const skills = await getSkillStore().list();
+  const items = (all ? skills : skills.filter((s) => canViewSkill(auth.user, s))).sort(byScopeThenName);
+  return NextResponse.json({ items, total: items.length });
+}
+
+/**
+ * POST /api/ai/skills
+ * Create a skill. Body: { name, title?, description?, template, variables?, scope?, roles? }
+ * Sharing with roles (`scope: 'role'`) is admin only.
+ */
+export async function POST(request: NextRequest) {
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = ((await request.json()) ?? {}) as Record<string, unknown>;
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const built = buildSkill(auth.user, body);
+  if (!built.ok) {
+    return NextResponse.json({ error: built.error }, { status: 400 });
+  }
+  const store = getSkillStore();
+  const saved = await store.save(built.skill);
+  if (!saved.ok) {
+    return NextResponse.json({ error: `A skill named /${built.skill.name} already exists` }, { status: 409 });
+  }
+  return NextResponse.json(built.skill, { status: 201 });
+}
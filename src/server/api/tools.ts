@@ -1,33 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { extractUserFromRequest } from '../auth';
-import { buildMethodCatalog, loadCapabilitiesFromDisk } from '../lib/ai-methods';
+import { authenticateRequest } from '../auth';
+import { CATALOG_CACHE_CONTROL, derivedEtag, etagMatches, getCatalog } from '../lib/ai-catalog';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 
 export async function GET(request: NextRequest) {
-  const user = extractUserFromRequest(request);
-  if (!user) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
   }
+  const user = auth.user;
 
   // Deprecated endpoint (legacy): return method catalog under `tools` for backward compatibility.
-  const projectRoot = process.cwd();
-  const caps = loadCapabilitiesFromDisk(projectRoot);
-  const endpoints = Array.isArray(caps?.endpoints) ? caps?.endpoints : [];
-  const methods = buildMethodCatalog({ endpoints });
+  const catalog = getCatalog();
+  const methods = catalog.methods;
+  // The body echoes the caller, so the tag covers who is asking too.
+  const etag = derivedEtag(catalog.etag, user.userId, user.email ?? '', user.roles.join(','));
+  const headers = { ETag: etag, 'Cache-Control': CATALOG_CACHE_CONTROL };
+  if (etagMatches(request.headers.get('if-none-match'), etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
 
-  return NextResponse.json({
-    deprecated: true,
-    user: { userId: user.userId, email: user.email, roles: user.roles },
-    tools: methods.map((m) => ({
-      name: m.name,
-      description: m.description,
-      readOnly: m.readOnly,
-      tags: ['method'],
-    })),
-  });
+  return NextResponse.json(
+    {
+      deprecated: true,
+      user: { userId: user.userId, email: user.email, roles: user.roles },
+      tools: methods.map((m) => ({
+        name: m.name,
+        description: m.description,
+        readOnly: m.readOnly,
+        tags: ['method'],
+      })),
+    },
+    { headers }
+  );
 }
-
-
-
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '../auth';
+import { getConversationStore } from '../lib/ai-conversations';
+import { conversationCorrelationIds, verifyShareToken } from '../lib/ai-transcript';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+/**
+ * GET /api/ai/transcripts/[token]
+ * Read-only view of a shared conversation (admin only).
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const auth = authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized', reason: auth.reason }, { status: 401 });
+  }
+  if (!auth.user.roles.includes('admin')) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+  const { token } = await context.params;
+
+  const verified = verifyShareToken(token);
+  if (!verified.ok) {
+    return NextResponse.json({ error: verified.reason }, { status: 403 });
+  }
+  const { share } = verified;
+  const conversation = await getConversationStore().get(share.ownerId, share.conversationId);
+  if (!conversation) {
+    return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+  }
+
+  const { userId: _userId, ...rest } = conversation;
+  return NextResponse.json({
+    ...rest,
+    correlationIds: conversationCorrelationIds(conversation),
+    sharedBy: share.sharedBy,
+    expiresAt: new Date(share.expiresAt).toISOString(),
+  });
+}
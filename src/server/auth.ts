@@ -1,3 +1,5 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
 import { NextRequest } from 'next/server';
 
 export type UserContext = {
@@ -6,13 +8,31 @@ export type UserContext = {
   roles: string[];
 };
 
+export type AuthResult = { ok: true; user: UserContext } | { ok: false; reason: string };
+
+type JwtHeader = { alg?: string; kid?: string; typ?: string };
+
+type Jwk = crypto.JsonWebKey & { kid?: string; alg?: string; use?: string };
+
+const SUPPORTED_ALGS: Record<string, { kind: 'hmac' | 'rsa' | 'ec'; hash: string }> = {
+  HS256: { kind: 'hmac', hash: 'sha256' },
+  RS256: { kind: 'rsa', hash: 'sha256' },
+  ES256: { kind: 'ec', hash: 'sha256' },
+};
+
+let jwksCache: { path: string; mtimeMs: number; keys: Jwk[] } | null = null;
+
 function base64UrlDecode(input: string): string {
+  return base64UrlToBuffer(input).toString('utf8');
+}
+
+function base64UrlToBuffer(input: string): Buffer {
   // Convert base64url -> base64
   const b64 = input.replace(/-/g, '+').replace(/_/g, '/');
   // Pad to 4
   const pad = b64.length % 4;
   const padded = pad ? b64 + '='.repeat(4 - pad) : b64;
-  return Buffer.from(padded, 'base64').toString('utf8');
+  return Buffer.from(padded, 'base64');
 }
 
 function getTokenFromRequest(request: NextRequest): string | null {
@@ -41,19 +61,163 @@ function getTokenFromRequest(request: NextRequest): string | null {
   return null;
 }
 
-export function extractUserFromRequest(request: NextRequest): UserContext | null {
+function splitList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function clockSkewSeconds(): number {
+  const raw = Number(process.env.HIT_AUTH_CLOCK_SKEW_SECONDS ?? '60');
+  return Number.isFinite(raw) && raw >= 0 ? raw : 60;
+}
+
+function verificationConfigured(): boolean {
+  return Boolean(
+    process.env.HIT_AUTH_JWT_SECRET || process.env.HIT_AUTH_JWT_PUBLIC_KEY || process.env.HIT_AUTH_JWKS_PATH
+  );
+}
+
+function loadJwks(): Jwk[] {
+  const jwksPath = process.env.HIT_AUTH_JWKS_PATH;
+  if (!jwksPath) return [];
+  try {
+    const stat = fs.statSync(jwksPath);
+    if (jwksCache && jwksCache.path === jwksPath && jwksCache.mtimeMs === stat.mtimeMs) return jwksCache.keys;
+    const parsed = JSON.parse(fs.readFileSync(jwksPath, 'utf8')) as { keys?: Jwk[] };
+    const keys = Array.isArray(parsed?.keys) ? parsed.keys : [];
+    jwksCache = { path: jwksPath, mtimeMs: stat.mtimeMs, keys };
+    return keys;
+  } catch {
+    return [];
+  }
+}
+
+const EC_CURVES: Record<string, string> = { ES256: 'P-256' };
+
+function resolvePublicKey(header: JwtHeader, kind: 'rsa' | 'ec'): { key: crypto.KeyObject } | { error: string } {
+  const wantedKty = kind === 'rsa' ? 'RSA' : 'EC';
+  const alg = String(header.alg);
+  const jwks = loadJwks().filter((k) => !k.use || k.use === 'sig');
+  // A key is only usable for the algorithm it was published for: right type, matching
+  // `alg` when the JWK declares one, and the curve the algorithm implies.
+  const usable = (k: Jwk) =>
+    k.kty === wantedKty && (!k.alg || k.alg === alg) && (kind !== 'ec' || k.crv === EC_CURVES[alg]);
+  if (header.kid) {
+    const jwk = jwks.find((k) => k.kid === header.kid);
+    if (jwk) {
+      if (!usable(jwk)) return { error: `Key '${header.kid}' is not valid for ${alg}` };
+      return { key: crypto.createPublicKey({ key: jwk, format: 'jwk' }) };
+    }
+  } else {
+    const candidates = jwks.filter(usable);
+    if (candidates.length === 1) return { key: crypto.createPublicKey({ key: candidates[0], format: 'jwk' }) };
+  }
+
+  const pem = process.env.HIT_AUTH_JWT_PUBLIC_KEY;
+  if (pem) {
+    const key = crypto.createPublicKey(pem.replace(/\\n/g, '\n'));
+    if (key.asymmetricKeyType !== (kind === 'rsa' ? 'rsa' : 'ec')) {
+      return { error: `Configured public key is not valid for ${alg}` };
+    }
+    return { key };
+  }
+  return { error: header.kid ? `No public key found for kid '${header.kid}'` : `No public key configured for ${alg}` };
+}
+
+function verifySignature(parts: string[], header: JwtHeader): string | null {
+  const alg = SUPPORTED_ALGS[String(header.alg || '')];
+  if (!alg) return `Unsupported JWT algorithm: ${String(header.alg || 'none')}`;
+
+  const signingInput = Buffer.from(`${parts[0]}.${parts[1]}`);
+  const signature = base64UrlToBuffer(parts[2]);
+
+  if (alg.kind === 'hmac') {
+    const secret = process.env.HIT_AUTH_JWT_SECRET;
+    if (!secret) return `No shared secret configured for ${header.alg}`;
+    const expected = crypto.createHmac(alg.hash, secret).update(signingInput).digest();
+    if (expected.length !== signature.length || !crypto.timingSafeEqual(expected, signature)) {
+      return 'Invalid token signature';
+    }
+    return null;
+  }
+
+  const resolved = resolvePublicKey(header, alg.kind);
+  if ('error' in resolved) return resolved.error;
+  const { key } = resolved;
+  const valid = crypto.verify(
+    alg.hash,
+    signingInput,
+    // JWS ECDSA signatures are raw r||s, not DER.
+    alg.kind === 'ec' ? { key, dsaEncoding: 'ieee-p1363' } : key,
+    signature
+  );
+  return valid ? null : 'Invalid token signature';
+}
+
+function verifyClaims(payload: any): string | null {
+  const now = Math.floor(Date.now() / 1000);
+  const skew = clockSkewSeconds();
+
+  if (payload?.exp != null) {
+    if (typeof payload.exp !== 'number') return 'Invalid exp claim';
+    if (payload.exp + skew < now) return 'Token expired';
+  } else if (process.env.HIT_AUTH_ALLOW_MISSING_EXP !== '1') {
+    return 'Token has no exp claim';
+  }
+  if (payload?.nbf != null) {
+    if (typeof payload.nbf !== 'number') return 'Invalid nbf claim';
+    if (payload.nbf - skew > now) return 'Token not yet valid';
+  }
+
+  const issuers = splitList(process.env.HIT_AUTH_JWT_ISSUER);
+  if (issuers.length && !issuers.includes(String(payload?.iss ?? ''))) {
+    return 'Unexpected token issuer';
+  }
+
+  const audiences = splitList(process.env.HIT_AUTH_JWT_AUDIENCE);
+  if (audiences.length) {
+    const aud = Array.isArray(payload?.aud) ? payload.aud.map(String) : payload?.aud != null ? [String(payload.aud)] : [];
+    if (!aud.some((a: string) => audiences.includes(a))) return 'Unexpected token audience';
+  }
+
+  return null;
+}
+
+/**
+ * Authenticate the caller from the bearer token or `hit_token` cookie.
+ *
+ * Signatures are verified with HIT_AUTH_JWT_SECRET (HS256), or with a JWKS file
+ * (HIT_AUTH_JWKS_PATH) / PEM public key (HIT_AUTH_JWT_PUBLIC_KEY) for RS256/ES256.
+ * JWKS keys must match the token's `alg`. `exp` is required unless
+ * HIT_AUTH_ALLOW_MISSING_EXP=1, and `iss`/`aud` are checked when
+ * HIT_AUTH_JWT_ISSUER/HIT_AUTH_JWT_AUDIENCE are set.
+ *
+ * In development with no key material configured, tokens are decoded without
+ * verification so local sandboxes keep working; everywhere else they are rejected.
+ */
+export function authenticateRequest(request: NextRequest): AuthResult {
   try {
     const token = getTokenFromRequest(request);
-    if (!token) return null;
+    if (!token) return { ok: false, reason: 'Missing bearer token' };
 
     const parts = token.split('.');
-    if (parts.length !== 3) return null;
+    if (parts.length !== 3) return { ok: false, reason: 'Malformed token' };
 
+    const header = JSON.parse(base64UrlDecode(parts[0])) as JwtHeader;
     const payload = JSON.parse(base64UrlDecode(parts[1])) as any;
-    if (payload?.exp && typeof payload.exp === 'number' && payload.exp * 1000 < Date.now()) {
-      return null;
+
+    if (verificationConfigured()) {
+      const sigError = verifySignature(parts, header);
+      if (sigError) return { ok: false, reason: sigError };
+    } else if (process.env.NODE_ENV !== 'development') {
+      return { ok: false, reason: 'Token verification is not configured' };
     }
 
+    const claimsError = verifyClaims(payload);
+    if (claimsError) return { ok: false, reason: claimsError };
+
     const role = payload?.role;
     const roles = Array.isArray(payload?.roles) ? payload.roles : [];
     const normalizedRoles =
@@ -61,13 +225,15 @@ export function extractUserFromRequest(request: NextRequest): UserContext | null
 
     const userId = payload?.sub || payload?.user_id || payload?.email;
     const email = payload?.email || payload?.sub;
-    if (!userId || !email) return null;
+    if (!userId || !email) return { ok: false, reason: 'Token is missing subject or email' };
 
-    return { userId: String(userId), email: String(email), roles: normalizedRoles.map(String) };
+    return { ok: true, user: { userId: String(userId), email: String(email), roles: normalizedRoles.map(String) } };
   } catch {
-    return null;
+    return { ok: false, reason: 'Malformed token' };
   }
 }
 
-
-
+export function extractUserFromRequest(request: NextRequest): UserContext | null {
+  const result = authenticateRequest(request);
+  return result.ok ? result.user : null;
+}
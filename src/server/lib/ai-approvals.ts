@@ -0,0 +1,208 @@
+import crypto from 'node:crypto';
+import type { UserContext } from '../auth';
+
+// Approval bookkeeping for /api/ai/execute:
+// - HMAC-signed approval tokens that bind a draft to the user and its exact input.
+// - An in-process store for drafts that need a second approver.
+//
+// Used token ids and pending approvals live in memory; a multi-instance deployment
+// should set HIT_AI_APPROVAL_SECRET and pin AI traffic to one instance until this
+// is backed by shared storage.
+
+export type TwoPersonApproval = {
+  id: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  inputHash: string;
+  requestedBy: string;
+  /** One set per gated method; the second approver needs a role from every set. */
+  approverRoles: string[][];
+  requestedAt: number;
+  expiresAt: number;
+  grantedBy: string | null;
+};
+
+type ApprovalTokenPayload = {
+  v: 1;
+  jti: string;
+  sub: string;
+  tool: string;
+  h: string;
+  exp: number;
+};
+
+export const APPROVAL_TTL_MS = 15 * 60 * 1000;
+export const APPROVAL_TOKEN_TTL_MS = 10 * 60 * 1000;
+
+const pending = new Map<string, TwoPersonApproval>();
+const usedTokens = new Map<string, number>();
+
+// Without a configured secret, tokens are only valid for the lifetime of this process.
+let processSecret: Buffer | null = null;
+
+function approvalSecret(): Buffer {
+  const configured = process.env.HIT_AI_APPROVAL_SECRET;
+  if (configured) return Buffer.from(configured, 'utf8');
+  if (!processSecret) processSecret = crypto.randomBytes(32);
+  return processSecret;
+}
+
+function sign(data: string): string {
+  return crypto.createHmac('sha256', approvalSecret()).update(data).digest('base64url');
+}
+
+export function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  const obj = value as Record<string, unknown>;
+  const keys = Object.keys(obj)
+    .filter((k) => obj[k] !== undefined)
+    .sort();
+  return `{${keys.map((k) => `${JSON.stringify(k)}:${stableStringify(obj[k])}`).join(',')}}`;
+}
+
+/** Hash of the executable part of a tool input (approval bookkeeping fields excluded). */
+export function hashToolInput(toolName: string, input: Record<string, unknown>): string {
+  const { approved: _approved, approvalId: _approvalId, approvalToken: _approvalToken, ...rest } = input as any;
+  return crypto.createHash('sha256').update(`${toolName}\n${stableStringify(rest)}`).digest('hex');
+}
+
+function sweep(now: number) {
+  for (const [id, a] of pending) {
+    if (a.expiresAt <= now) pending.delete(id);
+  }
+  for (const [jti, exp] of usedTokens) {
+    if (exp <= now) usedTokens.delete(jti);
+  }
+}
+
+/** Issue a short-lived token authorizing `user` to run exactly this tool input once. */
+export function issueApprovalToken(
+  user: UserContext,
+  toolName: string,
+  input: Record<string, unknown>,
+  ttlMs: number = APPROVAL_TOKEN_TTL_MS
+): { token: string; expiresAt: number } {
+  const payload: ApprovalTokenPayload = {
+    v: 1,
+    jti: crypto.randomUUID(),
+    sub: user.userId,
+    tool: toolName,
+    h: hashToolInput(toolName, input),
+    exp: Date.now() + ttlMs,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  return { token: `${encoded}.${sign(encoded)}`, expiresAt: payload.exp };
+}
+
+/**
+ * Verify an approval token against the caller and the input being executed,
+ * and mark it used. A token is accepted at most once.
+ */
+export function redeemApprovalToken(
+  token: string,
+  user: UserContext,
+  toolName: string,
+  input: Record<string, unknown>
+): { ok: true } | { ok: false; reason: string } {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return { ok: false, reason: 'Malformed approval token' };
+  const expected = Buffer.from(sign(encoded));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+    return { ok: false, reason: 'Invalid approval token signature' };
+  }
+
+  let payload: ApprovalTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as ApprovalTokenPayload;
+  } catch {
+    return { ok: false, reason: 'Malformed approval token' };
+  }
+
+  const now = Date.now();
+  sweep(now);
+  if (payload.v !== 1 || typeof payload.exp !== 'number') return { ok: false, reason: 'Malformed approval token' };
+  if (payload.exp <= now) return { ok: false, reason: 'Approval token expired' };
+  if (payload.sub !== user.userId) return { ok: false, reason: 'Approval token belongs to another user' };
+  if (payload.tool !== toolName || payload.h !== hashToolInput(toolName, input)) {
+    return { ok: false, reason: 'Request does not match the approved draft' };
+  }
+  if (usedTokens.has(payload.jti)) return { ok: false, reason: 'Approval token already used' };
+
+  usedTokens.set(payload.jti, payload.exp);
+  return { ok: true };
+}
+
+export function createTwoPersonApproval(
+  user: UserContext,
+  toolName: string,
+  input: Record<string, unknown>,
+  approverRoles: string[][]
+): TwoPersonApproval {
+  const now = Date.now();
+  sweep(now);
+  const approval: TwoPersonApproval = {
+    id: crypto.randomUUID(),
+    toolName,
+    input,
+    inputHash: hashToolInput(toolName, input),
+    requestedBy: user.userId,
+    approverRoles,
+    requestedAt: now,
+    expiresAt: now + APPROVAL_TTL_MS,
+    grantedBy: null,
+  };
+  pending.set(approval.id, approval);
+  return approval;
+}
+
+export function getTwoPersonApproval(id: string): TwoPersonApproval | null {
+  sweep(Date.now());
+  return pending.get(id) ?? null;
+}
+
+/** Null when `approver` holds the roles the policy requires, otherwise why not. */
+export function approverRoleError(approval: TwoPersonApproval, approver: UserContext): string | null {
+  const missing = approval.approverRoles.find((set) => !set.some((r) => approver.roles.includes(r)));
+  return missing ? `Approving this requires one of the roles: ${missing.join(', ')}` : null;
+}
+
+export function grantTwoPersonApproval(
+  id: string,
+  approver: UserContext
+): { ok: true; approval: TwoPersonApproval } | { ok: false; reason: string } {
+  const approval = getTwoPersonApproval(id);
+  if (!approval) return { ok: false, reason: 'Approval not found or expired' };
+  if (approval.requestedBy === approver.userId) {
+    return { ok: false, reason: 'A second person must grant this approval' };
+  }
+  const roleError = approverRoleError(approval, approver);
+  if (roleError) return { ok: false, reason: roleError };
+  approval.grantedBy = approver.userId;
+  return { ok: true, approval };
+}
+
+/**
+ * Check that a two-person approval is granted and matches this exact input.
+ * Does not consume it; call `completeTwoPersonApproval` once the request runs.
+ */
+export function checkTwoPersonApproval(
+  id: string,
+  user: UserContext,
+  toolName: string,
+  input: Record<string, unknown>
+): { ok: true } | { ok: false; reason: string } {
+  const approval = getTwoPersonApproval(id);
+  if (!approval) return { ok: false, reason: 'Approval not found or expired' };
+  if (approval.requestedBy !== user.userId) return { ok: false, reason: 'Approval belongs to another user' };
+  if (approval.toolName !== toolName || approval.inputHash !== hashToolInput(toolName, input)) {
+    return { ok: false, reason: 'Request does not match the approved draft' };
+  }
+  if (!approval.grantedBy) return { ok: false, reason: 'Waiting for a second approver' };
+  return { ok: true };
+}
+
+export function completeTwoPersonApproval(id: string) {
+  pending.delete(id);
+}
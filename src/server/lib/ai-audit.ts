@@ -0,0 +1,165 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { isSecretKey, REDACTED } from '../../shared/ai-redact';
+
+// Append-only audit trail for requests executed through /api/ai/execute.
+//
+// The default sink appends JSON lines to `.hit/ai-audit.jsonl` (or HIT_AI_AUDIT_PATH).
+// Apps can route entries elsewhere (database, SIEM) with `setAuditSink`.
+
+export type AuditEntry = {
+  id: string;
+  at: string;
+  userId: string;
+  email: string;
+  roles: string[];
+  correlationId: string | null;
+  toolName: string;
+  /** Position inside an http.bulk batch; null for http.request. */
+  stepIndex: number | null;
+  method: string;
+  path: string;
+  query: Record<string, unknown> | null;
+  body: unknown;
+  approvalMode: 'auto' | 'manual';
+  status: number | null;
+  durationMs: number;
+  error?: string;
+};
+
+export type AuditQuery = {
+  q?: string;
+  userId?: string;
+  method?: string;
+  correlationId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+};
+
+export type AuditSink = {
+  append(entry: AuditEntry): Promise<void>;
+  /** Newest first. Sinks that cannot be searched may omit this. */
+  search?(query: AuditQuery): Promise<{ entries: AuditEntry[]; total: number }>;
+};
+
+const MAX_STRING = 2000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 86_400_000;
+
+let sink: AuditSink | null = null;
+
+/** Recursively mask secret-looking fields and trim very long strings. */
+export function redactForAudit(value: unknown, depth = 0): unknown {
+  if (depth > 8) return '[…]';
+  if (typeof value === 'string') return value.length > MAX_STRING ? `${value.slice(0, MAX_STRING)}…` : value;
+  if (Array.isArray(value)) return value.map((v) => redactForAudit(v, depth + 1));
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+      out[k] = isSecretKey(k) ? REDACTED : redactForAudit(v, depth + 1);
+    }
+    return out;
+  }
+  return value;
+}
+
+export type AuditTimeRange = {
+  /** Inclusive, epoch ms. */
+  from: number | null;
+  /** Exclusive, epoch ms. */
+  until: number | null;
+};
+
+/**
+ * The `from`/`to` filters as time bounds. A date-only `to` (e.g. `2026-10-19`)
+ * covers that whole day; a timestamp `to` includes that instant.
+ */
+export function auditTimeRange(query: Pick<AuditQuery, 'from' | 'to'>): AuditTimeRange | { error: string } {
+  const parse = (value: string | undefined, name: string): number | null | { error: string } => {
+    if (!value) return null;
+    const ms = Date.parse(value.trim());
+    return Number.isFinite(ms) ? ms : { error: `Invalid ${name} date: ${value}` };
+  };
+  const from = parse(query.from, 'from');
+  if (from && typeof from === 'object') return from;
+  const to = parse(query.to, 'to');
+  if (to && typeof to === 'object') return to;
+  const until = to === null ? null : DATE_ONLY.test(String(query.to).trim()) ? to + DAY_MS : to + 1;
+  return { from, until };
+}
+
+function matchesQuery(e: AuditEntry, query: AuditQuery, range: AuditTimeRange): boolean {
+  if (query.userId && e.userId !== query.userId && e.email !== query.userId) return false;
+  if (query.method && e.method !== query.method.toUpperCase()) return false;
+  if (query.correlationId && e.correlationId !== query.correlationId) return false;
+  if (range.from !== null || range.until !== null) {
+    const at = Date.parse(e.at);
+    if (range.from !== null && !(at >= range.from)) return false;
+    if (range.until !== null && !(at < range.until)) return false;
+  }
+  if (query.q) {
+    const needle = query.q.toLowerCase();
+    const hay = `${e.email} ${e.userId} ${e.toolName} ${e.method} ${e.path} ${e.correlationId ?? ''}`.toLowerCase();
+    if (!hay.includes(needle)) return false;
+  }
+  return true;
+}
+
+export function createJsonlAuditSink(filePath: string): AuditSink {
+  return {
+    async append(entry) {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.appendFile(filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+    },
+    async search(query) {
+      let raw = '';
+      try {
+        raw = await fs.promises.readFile(filePath, 'utf8');
+      } catch {
+        return { entries: [], total: 0 };
+      }
+      const range = auditTimeRange(query);
+      if ('error' in range) return { entries: [], total: 0 };
+      const matched: AuditEntry[] = [];
+      for (const line of raw.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const e = JSON.parse(line) as AuditEntry;
+          if (matchesQuery(e, query, range)) matched.push(e);
+        } catch {
+          // skip torn lines
+        }
+      }
+      matched.reverse();
+      const offset = Math.max(0, query.offset ?? 0);
+      const limit = Math.max(1, query.limit ?? 50);
+      return { entries: matched.slice(offset, offset + limit), total: matched.length };
+    },
+  };
+}
+
+export function setAuditSink(next: AuditSink | null) {
+  sink = next;
+}
+
+export function getAuditSink(): AuditSink {
+  if (!sink) {
+    const filePath = process.env.HIT_AI_AUDIT_PATH || path.join(process.cwd(), '.hit', 'ai-audit.jsonl');
+    sink = createJsonlAuditSink(filePath);
+  }
+  return sink;
+}
+
+/**
+ * Record an executed request. Audit failures are reported but never fail the
+ * request itself, since the downstream write has already happened.
+ */
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+  try {
+    await getAuditSink().append(entry);
+  } catch (e) {
+    console.error('[ai-core] Failed to write AI audit entry', e);
+  }
+}
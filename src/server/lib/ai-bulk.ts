@@ -0,0 +1,442 @@
+// Execution strategies for the http.bulk tool.
+//
+// The route handler owns auth, policy and approval; these helpers only decide
+// how an approved list of steps is sent, through the `send` callback.
+
+export type HttpStep = {
+  /** Optional id other steps can reference as {{steps.<id>.response.<field>}}. */
+  id?: string;
+  method: string;
+  path: string;
+  query: Record<string, unknown> | null;
+  body: Record<string, unknown> | null;
+};
+
+export type HttpResult = {
+  status: number;
+  url: string;
+  method: string;
+  response: any;
+};
+
+export type StepKind = 'step' | 'preimage' | 'rollback';
+
+export type SendStep = (step: HttpStep, meta: { stepIndex: number; kind: StepKind }) => Promise<HttpResult>;
+
+/**
+ * Re-checks a step once its {{steps.*}} references are filled in, just before it
+ * is sent: returns the step to send, or why it may no longer run.
+ */
+export type CheckResolvedStep = (step: HttpStep, stepIndex: number) => { step: HttpStep } | { error: string };
+
+export type CompensationReport = {
+  stepIndex: number;
+  method: string;
+  path: string;
+  status: number | null;
+  error?: string;
+};
+
+export type StepTiming = {
+  /** Milliseconds after the batch started. */
+  startMs: number;
+  durationMs: number;
+};
+
+export type BulkOutcome = {
+  status: number;
+  ok: number;
+  failed: number;
+  /** Indexes of `requests` in the order they started (dependencies first). */
+  order: number[];
+  results: any[];
+  /** Aligned with `results`; null for steps that never ran. */
+  timings: Array<StepTiming | null>;
+  durationMs: number;
+};
+
+export type BulkPlan = {
+  order: number[];
+  /** deps[i] = indexes of the steps that step i references. */
+  deps: number[][];
+};
+
+export type AtomicBulkOutcome = BulkOutcome & {
+  mode: 'atomic';
+  failedStep: number | null;
+  rolledBack: CompensationReport[];
+  notRolledBack: CompensationReport[];
+};
+
+type Undo = { stepIndex: number; step: HttpStep | null; reason?: string };
+
+const STEP_REF = /\{\{\s*steps\.([A-Za-z0-9_-]+)((?:\.[A-Za-z0-9_-]+)*)\s*\}\}/g;
+const WHOLE_STEP_REF = /^\{\{\s*steps\.([A-Za-z0-9_-]+)((?:\.[A-Za-z0-9_-]+)*)\s*\}\}$/;
+
+export function isSuccess(status: unknown): boolean {
+  return typeof status === 'number' && status >= 200 && status < 300;
+}
+
+function unwrapRecord(resp: any): Record<string, any> | null {
+  const rec = resp && typeof resp === 'object' && !Array.isArray(resp) ? resp : null;
+  if (!rec) return null;
+  const data = rec.data;
+  return data && typeof data === 'object' && !Array.isArray(data) ? data : rec;
+}
+
+function createdId(resp: any): string | null {
+  const rec = unwrapRecord(resp);
+  const id = rec?.id ?? rec?.uuid;
+  return typeof id === 'string' || typeof id === 'number' ? String(id) : null;
+}
+
+function parentPath(p: string): string {
+  const clean = p.split('?')[0].replace(/\/+$/, '');
+  return clean.slice(0, clean.lastIndexOf('/')) || clean;
+}
+
+function pick(rec: Record<string, any>, keys: string[]): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const k of keys) if (k in rec) out[k] = rec[k];
+  return out;
+}
+
+/** Build the request that reverses `step`, given its pre-image and result. */
+function compensationFor(step: HttpStep, preimage: Record<string, any> | null, result: HttpResult): Omit<Undo, 'stepIndex'> {
+  if (step.method === 'POST') {
+    const id = createdId(result.response);
+    if (!id) return { step: null, reason: 'Created resource id not found in response' };
+    return { step: { method: 'DELETE', path: `${step.path.replace(/\/+$/, '')}/${encodeURIComponent(id)}`, query: null, body: null } };
+  }
+  if (!preimage) return { step: null, reason: 'No pre-image captured' };
+  if (step.method === 'PATCH') {
+    return { step: { method: 'PATCH', path: step.path, query: step.query, body: pick(preimage, Object.keys(step.body ?? {})) } };
+  }
+  if (step.method === 'PUT') {
+    return { step: { method: 'PUT', path: step.path, query: step.query, body: preimage } };
+  }
+  if (step.method === 'DELETE') {
+    // Re-creating may assign a new id; the report says what was restored where.
+    return { step: { method: 'POST', path: parentPath(step.path), query: null, body: preimage } };
+  }
+  return { step: null };
+}
+
+function collectRefs(value: unknown, acc: Set<string>): Set<string> {
+  if (typeof value === 'string') {
+    for (const m of value.matchAll(STEP_REF)) acc.add(m[1]);
+  } else if (Array.isArray(value)) {
+    for (const v of value) collectRefs(v, acc);
+  } else if (value && typeof value === 'object') {
+    for (const v of Object.values(value)) collectRefs(v, acc);
+  }
+  return acc;
+}
+
+/** Ids of the steps that `step` references in its path, query or body. */
+export function stepReferences(step: HttpStep): string[] {
+  return Array.from(collectRefs([step.path, step.query, step.body], new Set()));
+}
+
+/**
+ * Validate step ids and references and return an execution order in which
+ * every step runs after the steps it references. Ties keep the original order.
+ */
+export function planBulk(steps: HttpStep[]): ({ ok: true } & BulkPlan) | { ok: false; errors: string[] } {
+  const errors: string[] = [];
+  const indexById = new Map<string, number>();
+  steps.forEach((st, i) => {
+    if (st.id == null) return;
+    if (!/^[A-Za-z0-9_-]+$/.test(st.id)) errors.push(`requests[${i}]: invalid step id '${st.id}'`);
+    else if (indexById.has(st.id)) errors.push(`requests[${i}]: duplicate step id '${st.id}'`);
+    else indexById.set(st.id, i);
+  });
+
+  const deps = steps.map((st, i) => {
+    const out = new Set<number>();
+    for (const ref of collectRefs([st.path, st.query, st.body], new Set())) {
+      const target = indexById.get(ref);
+      if (target === undefined) errors.push(`requests[${i}]: references unknown step '${ref}'`);
+      else if (target === i) errors.push(`requests[${i}]: step '${ref}' references itself`);
+      else out.add(target);
+    }
+    return out;
+  });
+  if (errors.length) return { ok: false, errors };
+
+  const order: number[] = [];
+  const state = new Array<0 | 1 | 2>(steps.length).fill(0);
+  const visit = (i: number, trail: number[]): string | null => {
+    if (state[i] === 2) return null;
+    if (state[i] === 1) {
+      const cycle = [...trail.slice(trail.indexOf(i)), i].map((j) => steps[j].id ?? `#${j}`);
+      return `Dependency cycle: ${cycle.join(' -> ')}`;
+    }
+    state[i] = 1;
+    for (const d of Array.from(deps[i]).sort((a, b) => a - b)) {
+      const err = visit(d, [...trail, i]);
+      if (err) return err;
+    }
+    state[i] = 2;
+    order.push(i);
+    return null;
+  };
+  for (let i = 0; i < steps.length; i++) {
+    const err = visit(i, []);
+    if (err) return { ok: false, errors: [err] };
+  }
+  return { ok: true, order, deps: deps.map((d) => Array.from(d)) };
+}
+
+function lookup(result: unknown, accessor: string): unknown {
+  let cur: any = result;
+  for (const key of accessor.split('.').filter(Boolean)) {
+    if (cur == null || typeof cur !== 'object') return undefined;
+    cur = cur[key];
+  }
+  return cur;
+}
+
+/** Substitute {{steps.*}} references using the results of earlier steps. */
+function resolveStep(step: HttpStep, outputs: Map<string, HttpResult>): { step: HttpStep } | { error: string } {
+  let missing: string | null = null;
+  const valueOf = (id: string, accessor: string): unknown => {
+    const v = lookup(outputs.get(id), accessor);
+    if (v === undefined && !missing) missing = `{{steps.${id}${accessor}}} is not available`;
+    return v;
+  };
+  const interpolate = (text: string, encode: boolean) =>
+    text.replace(STEP_REF, (_m, id: string, accessor: string) => {
+      const v = valueOf(id, accessor);
+      const str = v == null ? '' : typeof v === 'object' ? JSON.stringify(v) : String(v);
+      return encode ? encodeURIComponent(str) : str;
+    });
+  const resolveValue = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      // A value that is exactly one reference keeps the referenced type (numbers, objects).
+      const whole = value.match(WHOLE_STEP_REF);
+      return whole ? valueOf(whole[1], whole[2]) : interpolate(value, false);
+    }
+    if (Array.isArray(value)) return value.map(resolveValue);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, resolveValue(v)]));
+    }
+    return value;
+  };
+
+  const resolved: HttpStep = {
+    ...step,
+    path: interpolate(step.path, true),
+    query: step.query ? (resolveValue(step.query) as Record<string, unknown>) : null,
+    body: step.body ? (resolveValue(step.body) as Record<string, unknown>) : null,
+  };
+  return missing ? { error: missing } : { step: resolved };
+}
+
+function errorMessage(e: unknown): string {
+  if (e instanceof Error && (e.name === 'TimeoutError' || e.name === 'AbortError')) return 'Request timed out';
+  return e instanceof Error ? e.message : 'Request failed';
+}
+
+/**
+ * Run every step, continuing past failures (207 when any failed). With
+ * `concurrency` > 1, GETs whose dependencies are done run in parallel up to the
+ * limit; writes still run one at a time, in order, after everything before them.
+ * A step rejected by `checkResolved` aborts the batch: steps not yet started are skipped.
+ */
+export async function runSequentialBulk(
+  steps: HttpStep[],
+  plan: BulkPlan,
+  send: SendStep,
+  opts: { concurrency?: number; checkResolved?: CheckResolvedStep } = {}
+): Promise<BulkOutcome> {
+  const limit = Math.max(1, Math.trunc(opts.concurrency ?? 1));
+  const results: any[] = new Array(steps.length).fill(null);
+  const timings: Array<StepTiming | null> = new Array(steps.length).fill(null);
+  const outputs = new Map<string, HttpResult>();
+  const failedIds = new Set<string>();
+  const done = new Map<number, Promise<void>>();
+  const inflight = new Set<Promise<void>>();
+  const started = Date.now();
+  let aborted: string | null = null;
+
+  const runOne = async (i: number) => {
+    const step = steps[i];
+    const blockedBy = Array.from(collectRefs([step.path, step.query, step.body], new Set())).find((id) => failedIds.has(id));
+    const resolved = aborted || blockedBy ? null : resolveStep(step, outputs);
+    if (!resolved || 'error' in resolved) {
+      const error = aborted
+        ? `Skipped: batch aborted (${aborted})`
+        : blockedBy
+          ? `Skipped: step '${blockedBy}' did not succeed`
+          : (resolved as { error: string }).error;
+      results[i] = { status: null, method: step.method, path: step.path, skipped: true, error };
+      if (step.id) failedIds.add(step.id);
+      return;
+    }
+    const checked = opts.checkResolved ? opts.checkResolved(resolved.step, i) : resolved;
+    if ('error' in checked) {
+      results[i] = { status: null, method: step.method, path: resolved.step.path, error: checked.error };
+      aborted = `requests[${i}]: ${checked.error}`;
+      if (step.id) failedIds.add(step.id);
+      return;
+    }
+    const t = Date.now();
+    try {
+      results[i] = await send(checked.step, { stepIndex: i, kind: 'step' });
+    } catch (e) {
+      results[i] = { status: null, method: step.method, path: checked.step.path, error: errorMessage(e) };
+    }
+    timings[i] = { startMs: t - started, durationMs: Date.now() - t };
+    if (step.id) {
+      if (isSuccess(results[i]?.status)) outputs.set(step.id, results[i]);
+      else failedIds.add(step.id);
+    }
+  };
+
+  for (const i of plan.order) {
+    const isRead = steps[i].method === 'GET';
+    if (!isRead || limit === 1) {
+      await Promise.all(inflight);
+    } else {
+      while (inflight.size >= limit) await Promise.race(inflight);
+    }
+    await Promise.all((plan.deps[i] || []).map((d) => done.get(d)));
+    const p: Promise<void> = runOne(i).finally(() => inflight.delete(p));
+    done.set(i, p);
+    inflight.add(p);
+    if (!isRead || limit === 1) await p;
+  }
+  await Promise.all(inflight);
+
+  const ok = results.filter((r) => isSuccess(r?.status)).length;
+  const failed = steps.length - ok;
+  return {
+    status: failed === 0 ? 200 : 207,
+    ok,
+    failed,
+    order: plan.order,
+    results,
+    timings,
+    durationMs: Date.now() - started,
+  };
+}
+
+/**
+ * Run steps in order, stopping at the first failure and undoing the completed
+ * writes in reverse order. PUT/PATCH/DELETE capture a pre-image with a GET
+ * first; a step whose pre-image cannot be read, or that `checkResolved` rejects,
+ * is not attempted.
+ */
+export async function runAtomicBulk(
+  steps: HttpStep[],
+  plan: BulkPlan,
+  send: SendStep,
+  opts: { checkResolved?: CheckResolvedStep } = {}
+): Promise<AtomicBulkOutcome> {
+  const { order } = plan;
+  const results: any[] = new Array(steps.length).fill(null);
+  const timings: Array<StepTiming | null> = new Array(steps.length).fill(null);
+  const started = Date.now();
+  const outputs = new Map<string, HttpResult>();
+  const undo: Undo[] = [];
+  let failedStep: number | null = null;
+
+  for (const i of order) {
+    const resolved = resolveStep(steps[i], outputs);
+    if ('error' in resolved) {
+      results[i] = { status: null, method: steps[i].method, path: steps[i].path, error: resolved.error };
+      failedStep = i;
+      break;
+    }
+    const checked = opts.checkResolved ? opts.checkResolved(resolved.step, i) : resolved;
+    if ('error' in checked) {
+      results[i] = { status: null, method: steps[i].method, path: resolved.step.path, error: checked.error };
+      failedStep = i;
+      break;
+    }
+    const step = checked.step;
+    const t = Date.now();
+    let preimage: Record<string, any> | null = null;
+
+    if (step.method === 'PUT' || step.method === 'PATCH' || step.method === 'DELETE') {
+      let before: HttpResult | null = null;
+      let error: string | undefined;
+      try {
+        before = await send({ method: 'GET', path: step.path, query: step.query, body: null }, { stepIndex: i, kind: 'preimage' });
+      } catch (e) {
+        error = errorMessage(e);
+      }
+      if (!before || !isSuccess(before.status)) {
+        results[i] = {
+          status: before?.status ?? null,
+          method: step.method,
+          path: step.path,
+          error: `Could not capture pre-image before ${step.method}${error ? `: ${error}` : ''}; step not attempted`,
+        };
+        failedStep = i;
+        break;
+      }
+      preimage = unwrapRecord(before.response);
+    }
+
+    let res: HttpResult | null = null;
+    try {
+      res = await send(step, { stepIndex: i, kind: 'step' });
+    } catch (e) {
+      results[i] = { status: null, method: step.method, path: step.path, error: errorMessage(e) };
+      timings[i] = { startMs: t - started, durationMs: Date.now() - t };
+      failedStep = i;
+      break;
+    }
+    results[i] = res;
+    timings[i] = { startMs: t - started, durationMs: Date.now() - t };
+    if (!isSuccess(res.status)) {
+      failedStep = i;
+      break;
+    }
+    if (step.id) outputs.set(step.id, res);
+    if (step.method !== 'GET') undo.push({ stepIndex: i, ...compensationFor(step, preimage, res) });
+  }
+
+  const rolledBack: CompensationReport[] = [];
+  const notRolledBack: CompensationReport[] = [];
+  if (failedStep !== null) {
+    for (const u of [...undo].reverse()) {
+      const original = steps[u.stepIndex];
+      if (!u.step) {
+        notRolledBack.push({ stepIndex: u.stepIndex, method: original.method, path: original.path, status: null, error: u.reason });
+        continue;
+      }
+      try {
+        const res = await send(u.step, { stepIndex: u.stepIndex, kind: 'rollback' });
+        const report = { stepIndex: u.stepIndex, method: u.step.method, path: u.step.path, status: res.status };
+        if (isSuccess(res.status)) rolledBack.push(report);
+        else notRolledBack.push({ ...report, error: 'Compensating request failed' });
+      } catch (e) {
+        notRolledBack.push({
+          stepIndex: u.stepIndex,
+          method: u.step.method,
+          path: u.step.path,
+          status: null,
+          error: errorMessage(e),
+        });
+      }
+    }
+  }
+
+  const ok = failedStep === null ? steps.length : 0;
+  return {
+    mode: 'atomic',
+    status: failedStep === null ? 200 : notRolledBack.length === 0 ? 409 : 500,
+    ok,
+    failed: failedStep === null ? 0 : 1,
+    failedStep,
+    order,
+    results,
+    timings,
+    durationMs: Date.now() - started,
+    rolledBack,
+    notRolledBack,
+  };
+}
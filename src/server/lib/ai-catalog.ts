@@ -0,0 +1,119 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { discoverAppApiEndpoints } from './ai-endpoints';
+import { buildMethodCatalog, type CapabilitiesFile, type CapabilityEndpoint, type MethodSpec } from './ai-methods';
+import { getBm25Index } from './ai-retrieval';
+
+// Shared, in-process view of `.hit/generated/capabilities.json`.
+//
+// The catalog routes (`/api/ai/endpoints`, `/api/ai/methods`, `/api/ai/tools`), the
+// search routes and execute all read from here instead of parsing the file per
+// request. Each call stats the file; the parsed catalog is kept until its mtime or
+// size changes, and the method catalog's BM25 index is built when a new version
+// loads. Responses carry the version's ETag so clients can revalidate with
+// If-None-Match.
+
+export type Catalog = {
+  /** The generated capabilities file, or null when `hit run` has not written one. */
+  capabilities: CapabilitiesFile | null;
+  /** Method catalog built from `capabilities`; empty without the file. */
+  methods: MethodSpec[];
+  /** Strong ETag for this version of the file, e.g. `"3f2a…"`. */
+  etag: string;
+  loadedAt: string;
+};
+
+/** Clients may store catalog responses but must revalidate them (cheaply, via ETag). */
+export const CATALOG_CACHE_CONTROL = 'private, no-cache';
+
+let cached: { path: string; mtimeMs: number; size: number; catalog: Catalog } | null = null;
+
+function capabilitiesPath(projectRoot: string): string {
+  return path.join(projectRoot, '.hit', 'generated', 'capabilities.json');
+}
+
+function hash(text: string): string {
+  return crypto.createHash('sha1').update(text).digest('hex').slice(0, 27);
+}
+
+const EMPTY_CATALOG: Catalog = {
+  capabilities: null,
+  methods: [],
+  etag: `"${hash('no-capabilities')}"`,
+  loadedAt: new Date(0).toISOString(),
+};
+
+/** The current catalog, reloaded only when capabilities.json changes on disk. */
+export function getCatalog(projectRoot: string = process.cwd()): Catalog {
+  const p = capabilitiesPath(projectRoot);
+  let stat: fs.Stats | null = null;
+  try {
+    stat = fs.statSync(p);
+  } catch {
+    stat = null;
+  }
+  if (!stat) {
+    cached = null;
+    return EMPTY_CATALOG;
+  }
+  if (cached && cached.path === p && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+    return cached.catalog;
+  }
+
+  let raw: string;
+  let capabilities: CapabilitiesFile;
+  try {
+    raw = fs.readFileSync(p, 'utf8');
+    capabilities = JSON.parse(raw) as CapabilitiesFile;
+  } catch {
+    // Mid-write or malformed: keep serving the previous version if there is one.
+    return cached?.catalog ?? EMPTY_CATALOG;
+  }
+  const endpoints = Array.isArray(capabilities?.endpoints) ? capabilities.endpoints : [];
+  const methods = buildMethodCatalog({ endpoints });
+  getBm25Index(methods);
+
+  const catalog: Catalog = {
+    capabilities,
+    methods,
+    etag: `"${hash(raw)}"`,
+    loadedAt: new Date().toISOString(),
+  };
+  cached = { path: p, mtimeMs: stat.mtimeMs, size: stat.size, catalog };
+  return catalog;
+}
+
+/**
+ * Endpoints for `/api/ai/endpoints`: the generated file, or routes discovered under
+ * app/api when there is none (dev convenience).
+ */
+export function getCatalogEndpoints(projectRoot: string = process.cwd()): {
+  capabilities: CapabilitiesFile;
+  endpoints: CapabilityEndpoint[];
+  etag: string;
+} {
+  const catalog = getCatalog(projectRoot);
+  if (catalog.capabilities) {
+    const endpoints = Array.isArray(catalog.capabilities.endpoints) ? catalog.capabilities.endpoints : [];
+    return { capabilities: catalog.capabilities, endpoints, etag: catalog.etag };
+  }
+  const endpoints = discoverAppApiEndpoints(projectRoot);
+  return {
+    capabilities: { generated: false, kind: 'hit-capabilities', endpoints },
+    endpoints,
+    etag: `"${hash(JSON.stringify(endpoints))}"`,
+  };
+}
+
+/** ETag for a response derived from a catalog version plus anything else that shapes it. */
+export function derivedEtag(etag: string, ...parts: string[]): string {
+  return parts.length === 0 ? etag : `"${hash([etag, ...parts].join('\n'))}"`;
+}
+
+/** True if an If-None-Match header value matches `etag` (weak comparison, as for GET). */
+export function etagMatches(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  const bare = (t: string) => t.trim().replace(/^W\//, '');
+  return ifNoneMatch.split(',').some((t) => t.trim() === '*' || bare(t) === bare(etag));
+}
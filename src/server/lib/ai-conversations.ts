@@ -0,0 +1,230 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+// Server-side store for AI assistant conversations, always scoped to one user.
+//
+// The default store keeps one JSON file per conversation under
+// `.hit/ai-conversations/<user>/` (or HIT_AI_CONVERSATIONS_DIR). Apps can plug in a
+// database-backed store (SQLite, Postgres, ...) with `setConversationStore`.
+
+/** An approval draft the user acted on, and what came of it. */
+export type StoredApproval = {
+  toolName: string;
+  status: string;
+  input: unknown;
+  result: unknown;
+};
+
+export type StoredMessage = {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  at?: string;
+  /** Agent run that produced this message, when known. */
+  correlationId?: string;
+  approval?: StoredApproval;
+  /** The user's rating of the run (see ai-feedback). */
+  feedback?: 'up' | 'down';
+};
+
+export type Conversation = {
+  id: string;
+  userId: string;
+  title: string;
+  /** Page the conversation was started on. */
+  pathname: string | null;
+  createdAt: string;
+  updatedAt: string;
+  messages: StoredMessage[];
+};
+
+export type ConversationSummary = Omit<Conversation, 'messages'> & {
+  messageCount: number;
+  /** Start of the last message, for the history list. */
+  preview: string;
+};
+
+export type ConversationInit = {
+  title?: string;
+  pathname?: string | null;
+  messages?: StoredMessage[];
+  /** Original timestamp when importing (e.g. migrating local history). */
+  createdAt?: string;
+};
+
+export type ConversationPatch = {
+  title?: string;
+  messages?: StoredMessage[];
+};
+
+export type ConversationQuery = {
+  q?: string;
+  limit?: number;
+  offset?: number;
+};
+
+export type ConversationStore = {
+  /** Most recently updated first. */
+  list(userId: string, query: ConversationQuery): Promise<{ items: ConversationSummary[]; total: number }>;
+  get(userId: string, id: string): Promise<Conversation | null>;
+  create(userId: string, init: ConversationInit): Promise<Conversation>;
+  update(userId: string, id: string, patch: ConversationPatch): Promise<Conversation | null>;
+  delete(userId: string, id: string): Promise<boolean>;
+};
+
+export const MAX_CONVERSATION_MESSAGES = 1000;
+const MAX_MESSAGE_CHARS = 50_000;
+const MAX_APPROVAL_CHARS = 20_000;
+const MAX_TITLE_CHARS = 120;
+const ID_RE = /^[A-Za-z0-9-]{1,64}$/;
+
+let store: ConversationStore | null = null;
+
+/** Drop malformed entries and cap sizes; the client is not trusted to send clean data. */
+export function sanitizeMessages(raw: unknown): StoredMessage[] {
+  if (!Array.isArray(raw)) return [];
+  const out: StoredMessage[] = [];
+  for (const m of raw) {
+    if (!m || typeof m !== 'object') continue;
+    const role = (m as any).role;
+    const content = (m as any).content;
+    if (role !== 'user' && role !== 'assistant' && role !== 'system') continue;
+    if (typeof content !== 'string') continue;
+    const msg: StoredMessage = { role, content: content.slice(0, MAX_MESSAGE_CHARS) };
+    if (typeof (m as any).at === 'string') msg.at = (m as any).at;
+    if (typeof (m as any).correlationId === 'string' && (m as any).correlationId) {
+      msg.correlationId = (m as any).correlationId;
+    }
+    if ((m as any).feedback === 'up' || (m as any).feedback === 'down') msg.feedback = (m as any).feedback;
+    const approval = (m as any).approval;
+    if (approval && typeof approval === 'object' && typeof approval.toolName === 'string' && typeof approval.status === 'string') {
+      msg.approval = {
+        toolName: approval.toolName,
+        status: approval.status,
+        input: approval.input ?? null,
+        result: approval.result ?? null,
+      };
+      // Keep the draft but drop oversized execution results.
+      if (JSON.stringify(msg.approval).length > MAX_APPROVAL_CHARS) msg.approval.result = '[truncated]';
+    }
+    out.push(msg);
+  }
+  return out.slice(-MAX_CONVERSATION_MESSAGES);
+}
+
+export function sanitizeTitle(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null;
+  const t = raw.replace(/\s+/g, ' ').trim().slice(0, MAX_TITLE_CHARS);
+  return t || null;
+}
+
+/** Title from the first user message, used until the user renames the thread. */
+export function defaultTitle(messages: StoredMessage[]): string {
+  const first = messages.find((m) => m.role === 'user');
+  return sanitizeTitle(first?.content) ?? 'New conversation';
+}
+
+function summarize(c: Conversation): ConversationSummary {
+  const { messages, ...rest } = c;
+  const last = messages[messages.length - 1];
+  return { ...rest, messageCount: messages.length, preview: last ? last.content.slice(0, 140) : '' };
+}
+
+export function createFileConversationStore(rootDir: string): ConversationStore {
+  // User ids may contain characters that are unsafe in paths; hash them.
+  const userDir = (userId: string) =>
+    path.join(rootDir, crypto.createHash('sha256').update(userId).digest('hex').slice(0, 32));
+  const filePath = (userId: string, id: string) => path.join(userDir(userId), `${id}.json`);
+
+  async function read(userId: string, id: string): Promise<Conversation | null> {
+    if (!ID_RE.test(id)) return null;
+    try {
+      const c = JSON.parse(await fs.promises.readFile(filePath(userId, id), 'utf8')) as Conversation;
+      return c.userId === userId ? c : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async function write(c: Conversation) {
+    const dir = userDir(c.userId);
+    await fs.promises.mkdir(dir, { recursive: true });
+    const target = filePath(c.userId, c.id);
+    const tmp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.promises.writeFile(tmp, JSON.stringify(c), 'utf8');
+    await fs.promises.rename(tmp, target);
+  }
+
+  return {
+    async list(userId, query) {
+      let names: string[] = [];
+      try {
+        names = (await fs.promises.readdir(userDir(userId))).filter((n) => n.endsWith('.json'));
+      } catch {
+        return { items: [], total: 0 };
+      }
+      const all: ConversationSummary[] = [];
+      for (const name of names) {
+        const c = await read(userId, name.slice(0, -'.json'.length));
+        if (!c) continue;
+        if (query.q) {
+          const needle = query.q.toLowerCase();
+          const hay = `${c.title}\n${c.messages.map((m) => m.content).join('\n')}`.toLowerCase();
+          if (!hay.includes(needle)) continue;
+        }
+        all.push(summarize(c));
+      }
+      all.sort((a, b) => (a.updatedAt < b.updatedAt ? 1 : a.updatedAt > b.updatedAt ? -1 : 0));
+      const offset = Math.max(0, query.offset ?? 0);
+      const limit = Math.max(1, query.limit ?? 50);
+      return { items: all.slice(offset, offset + limit), total: all.length };
+    },
+
+    get: read,
+
+    async create(userId, init) {
+      const now = new Date().toISOString();
+      const messages = sanitizeMessages(init.messages);
+      const c: Conversation = {
+        id: crypto.randomUUID(),
+        userId,
+        title: sanitizeTitle(init.title) ?? defaultTitle(messages),
+        pathname: typeof init.pathname === 'string' ? init.pathname : null,
+        createdAt: typeof init.createdAt === 'string' && !Number.isNaN(Date.parse(init.createdAt)) ? init.createdAt : now,
+        updatedAt: now,
+        messages,
+      };
+      await write(c);
+      return c;
+    },
+
+    async update(userId, id, patch) {
+      const c = await read(userId, id);
+      if (!c) return null;
+      const title = sanitizeTitle(patch.title);
+      if (title) c.title = title;
+      if (patch.messages) c.messages = sanitizeMessages(patch.messages);
+      c.updatedAt = new Date().toISOString();
+      await write(c);
+      return c;
+    },
+
+    async delete(userId, id) {
+      if (!(await read(userId, id))) return false;
+      await fs.promises.rm(filePath(userId, id), { force: true });
+      return true;
+    },
+  };
+}
+
+export function setConversationStore(next: ConversationStore | null) {
+  store = next;
+}
+
+export function getConversationStore(): ConversationStore {
+  if (!store) {
+    const dir = process.env.HIT_AI_CONVERSATIONS_DIR || path.join(process.cwd(), '.hit', 'ai-conversations');
+    store = createFileConversationStore(dir);
+  }
+  return store;
+}
@@ -0,0 +1,139 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+// User ratings of assistant replies, keyed by the agent run (correlationId) that produced them.
+//
+// The default store appends JSON lines to `.hit/ai-feedback.jsonl` (or HIT_AI_FEEDBACK_PATH).
+// Apps can keep feedback elsewhere with `setFeedbackStore`.
+
+export type FeedbackRating = 'up' | 'down';
+
+export const FEEDBACK_REASONS = ['incorrect', 'incomplete', 'wrong_action', 'unsafe', 'too_slow', 'other'] as const;
+export type FeedbackReason = (typeof FEEDBACK_REASONS)[number];
+
+export type FeedbackEntry = {
+  id: string;
+  at: string;
+  userId: string;
+  email: string;
+  correlationId: string;
+  rating: FeedbackRating;
+  reason: FeedbackReason | null;
+  comment: string | null;
+  conversationId: string | null;
+};
+
+/** Feedback for one agent run. Only each user's latest rating counts. */
+export type FeedbackSummary = {
+  correlationId: string;
+  up: number;
+  down: number;
+  reasons: FeedbackReason[];
+  comments: Array<{ email: string; rating: FeedbackRating; comment: string }>;
+  lastAt: string;
+};
+
+export type FeedbackQuery = {
+  q?: string;
+  rating?: FeedbackRating;
+  reason?: FeedbackReason;
+  limit?: number;
+  offset?: number;
+};
+
+export type FeedbackStore = {
+  append(entry: FeedbackEntry): Promise<void>;
+  /** Entries for the given runs (all runs when omitted), oldest first. */
+  list(correlationIds?: string[]): Promise<FeedbackEntry[]>;
+};
+
+export const MAX_FEEDBACK_COMMENT = 2000;
+
+let store: FeedbackStore | null = null;
+
+export function isFeedbackRating(v: unknown): v is FeedbackRating {
+  return v === 'up' || v === 'down';
+}
+
+export function isFeedbackReason(v: unknown): v is FeedbackReason {
+  return typeof v === 'string' && (FEEDBACK_REASONS as readonly string[]).includes(v);
+}
+
+export function createJsonlFeedbackStore(filePath: string): FeedbackStore {
+  return {
+    async append(entry) {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.appendFile(filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+    },
+    async list(correlationIds) {
+      let raw = '';
+      try {
+        raw = await fs.promises.readFile(filePath, 'utf8');
+      } catch {
+        return [];
+      }
+      const wanted = correlationIds ? new Set(correlationIds) : null;
+      const out: FeedbackEntry[] = [];
+      for (const line of raw.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const e = JSON.parse(line) as FeedbackEntry;
+          if (!wanted || wanted.has(e.correlationId)) out.push(e);
+        } catch {
+          // skip torn lines
+        }
+      }
+      return out;
+    },
+  };
+}
+
+export function setFeedbackStore(next: FeedbackStore | null) {
+  store = next;
+}
+
+export function getFeedbackStore(): FeedbackStore {
+  if (!store) {
+    const filePath = process.env.HIT_AI_FEEDBACK_PATH || path.join(process.cwd(), '.hit', 'ai-feedback.jsonl');
+    store = createJsonlFeedbackStore(filePath);
+  }
+  return store;
+}
+
+/** Fold entries (oldest first) into per-run summaries, newest run feedback first. */
+export function summarizeFeedback(entries: FeedbackEntry[]): FeedbackSummary[] {
+  // A user may change their mind; keep only their latest rating per run.
+  const latest = new Map<string, FeedbackEntry>();
+  for (const e of entries) latest.set(`${e.correlationId}\u0000${e.userId}`, e);
+
+  const byRun = new Map<string, FeedbackSummary>();
+  for (const e of latest.values()) {
+    let s = byRun.get(e.correlationId);
+    if (!s) {
+      s = { correlationId: e.correlationId, up: 0, down: 0, reasons: [], comments: [], lastAt: e.at };
+      byRun.set(e.correlationId, s);
+    }
+    s[e.rating] += 1;
+    if (e.reason && !s.reasons.includes(e.reason)) s.reasons.push(e.reason);
+    if (e.comment) s.comments.push({ email: e.email, rating: e.rating, comment: e.comment });
+    if (e.at > s.lastAt) s.lastAt = e.at;
+  }
+  return Array.from(byRun.values()).sort((a, b) => (a.lastAt < b.lastAt ? 1 : a.lastAt > b.lastAt ? -1 : 0));
+}
+
+export async function searchFeedback(query: FeedbackQuery): Promise<{ items: FeedbackSummary[]; total: number }> {
+  let items = summarizeFeedback(await getFeedbackStore().list());
+  if (query.rating) items = items.filter((s) => s[query.rating!] > 0);
+  if (query.reason) items = items.filter((s) => s.reasons.includes(query.reason!));
+  if (query.q) {
+    const needle = query.q.toLowerCase();
+    items = items.filter((s) =>
+      `${s.correlationId} ${s.reasons.join(' ')} ${s.comments.map((c) => `${c.email} ${c.comment}`).join(' ')}`
+        .toLowerCase()
+        .includes(needle)
+    );
+  }
+  const offset = Math.max(0, query.offset ?? 0);
+  const limit = Math.max(1, query.limit ?? 50);
+  return { items: items.slice(offset, offset + limit), total: items.length };
+}
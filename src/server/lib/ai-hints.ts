@@ -0,0 +1,357 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { MethodSpec } from './ai-methods';
+import { tokenize, type Intent, type Ranking } from './ai-retrieval';
+
+// Search hints declared by feature packs: which nouns name which endpoints, what
+// else users call them, pack-specific verbs, and words that should route to a
+// particular endpoint. Method search turns these into an extra ranking, so a new
+// pack ranks well by declaring its vocabulary rather than by code changes here.
+//
+// Hints come from three places, merged:
+//
+// 1. The catalog itself: every static path segment after /api/ is an implicit
+//    entity (`/api/crm/contacts` answers to "contact" and "contacts").
+// 2. `ai` on capabilities entries (see CapabilityAiHints in ai-methods).
+// 3. An `ai:` block in a pack's feature-pack.yaml:
+//
+//      ai:
+//        entities:
+//          - name: deal
+//            synonyms: [opportunity, opportunities]
+//            paths: [/api/crm/deals]
+//        verbs:
+//          POST: [log, schedule]
+//        preferred:
+//          - when: [total, average, trend]
+//            path: /api/metrics/query
+//            method: POST
+//
+// feature-pack.yaml files are read from node_modules/@hit/* and from the
+// directories in HIT_AI_FEATURE_PACK_DIRS (comma-separated).
+
+export type EntityHint = {
+  name: string;
+  synonyms: string[];
+  /** Path prefixes served by the entity. */
+  paths: string[];
+  /** False for entities inferred from paths. */
+  declared: boolean;
+  pack?: string;
+};
+
+export type PreferredHint = {
+  when: string[];
+  path: string;
+  method?: string;
+  pack?: string;
+};
+
+export type PackAiHints = {
+  pack: string;
+  entities: EntityHint[];
+  verbs: Record<string, string[]>;
+  preferred: PreferredHint[];
+};
+
+export type SearchHints = {
+  entities: EntityHint[];
+  intents: Intent[];
+  preferred: PreferredHint[];
+};
+
+const DECLARED_WEIGHT = 3;
+const IMPLICIT_WEIGHT = 2;
+const PREFERRED_WEIGHT = 4;
+
+type YamlValue = string | YamlValue[] | { [key: string]: YamlValue };
+
+function unquote(raw: string): string {
+  const s = raw.trim();
+  if ((s.startsWith('"') && s.endsWith('"')) || (s.startsWith("'") && s.endsWith("'"))) return s.slice(1, -1);
+  return s;
+}
+
+function scalar(raw: string): YamlValue {
+  const s = raw.trim();
+  if (s.startsWith('[') && s.endsWith(']')) {
+    const inner = s.slice(1, -1).trim();
+    return inner ? inner.split(',').map((x) => unquote(x)) : [];
+  }
+  return unquote(s);
+}
+
+function stripComment(line: string): string {
+  // A `#` starts a comment at line start or after whitespace, outside quotes.
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quote) {
+      if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+/**
+ * Parse the block-style YAML subset feature packs use for `ai:` (nested maps, `-`
+ * lists, `[a, b]` flow lists, quoted or plain scalars). Anchors, multi-line
+ * strings and flow maps are not supported.
+ */
+function parseYamlBlock(lines: Array<{ indent: number; text: string }>): YamlValue {
+  let i = 0;
+
+  function parseNode(indent: number): YamlValue {
+    if (i >= lines.length || lines[i].indent < indent) return '';
+    return lines[i].text.startsWith('- ') || lines[i].text === '-' ? parseList(lines[i].indent) : parseMap(lines[i].indent);
+  }
+
+  function parseMap(indent: number, into: Record<string, YamlValue> = {}): Record<string, YamlValue> {
+    while (i < lines.length && lines[i].indent === indent && !lines[i].text.startsWith('-')) {
+      const m = /^("[^"]*"|'[^']*'|[^:]+):(?:\s+(.*))?$/.exec(lines[i].text);
+      i++;
+      if (!m) continue;
+      const key = unquote(m[1]);
+      if (m[2] !== undefined && m[2].trim() !== '') into[key] = scalar(m[2]);
+      else into[key] = i < lines.length && lines[i].indent > indent ? parseNode(lines[i].indent) : '';
+    }
+    return into;
+  }
+
+  function parseList(indent: number): YamlValue[] {
+    const out: YamlValue[] = [];
+    while (i < lines.length && lines[i].indent === indent && lines[i].text.startsWith('-')) {
+      const rest = lines[i].text.slice(1).trimStart();
+      if (!rest) {
+        i++;
+        out.push(i < lines.length && lines[i].indent > indent ? parseNode(lines[i].indent) : '');
+      } else if (/^("[^"]*"|'[^']*'|[^:[\]]+):(\s|$)/.test(rest)) {
+        // `- key: value` starts a map whose other keys sit at the column after `- `.
+        const column = indent + (lines[i].text.length - rest.length);
+        lines[i] = { indent: column, text: rest };
+        out.push(parseMap(column));
+      } else {
+        out.push(scalar(rest));
+        i++;
+      }
+    }
+    return out;
+  }
+
+  return parseNode(lines[0]?.indent ?? 0);
+}
+
+/** The top-level `key:` block of a YAML document, parsed; null if absent. */
+export function readYamlSection(text: string, key: string): YamlValue | null {
+  const lines = text.split(/\r?\n/);
+  const start = lines.findIndex((l) => new RegExp(`^${key}:\\s*(#.*)?$`).test(l));
+  if (start === -1) return null;
+  const body: Array<{ indent: number; text: string }> = [];
+  for (const raw of lines.slice(start + 1)) {
+    const line = stripComment(raw).replace(/\s+$/, '');
+    if (!line.trim()) continue;
+    const indent = line.length - line.trimStart().length;
+    if (indent === 0) break;
+    body.push({ indent, text: line.trim() });
+  }
+  return body.length > 0 ? parseYamlBlock(body) : null;
+}
+
+function strings(v: unknown): string[] {
+  if (typeof v === 'string') return v.trim() ? [v.trim()] : [];
+  return Array.isArray(v) ? v.filter((x): x is string => typeof x === 'string' && x.trim() !== '').map((x) => x.trim()) : [];
+}
+
+function verbMap(v: unknown): Record<string, string[]> {
+  const out: Record<string, string[]> = {};
+  if (!v || typeof v !== 'object' || Array.isArray(v)) return out;
+  for (const [method, words] of Object.entries(v as Record<string, unknown>)) {
+    const list = strings(words);
+    if (list.length > 0) out[method.toUpperCase()] = list;
+  }
+  return out;
+}
+
+/** Normalize a parsed `ai:` block (from YAML or JSON). */
+export function parsePackAiHints(pack: string, raw: unknown): PackAiHints {
+  const block = raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  const entities = (Array.isArray(block.entities) ? block.entities : [])
+    .map((e: any) => ({
+      name: typeof e?.name === 'string' ? e.name.trim() : '',
+      synonyms: strings(e?.synonyms),
+      paths: strings(e?.paths),
+      declared: true,
+      pack,
+    }))
+    .filter((e) => e.name);
+  const preferred = (Array.isArray(block.preferred) ? block.preferred : [])
+    .map((p: any) => ({
+      when: strings(p?.when),
+      path: typeof p?.path === 'string' ? p.path.trim() : '',
+      ...(typeof p?.method === 'string' && p.method.trim() ? { method: p.method.trim().toUpperCase() } : {}),
+      pack,
+    }))
+    .filter((p) => p.when.length > 0 && p.path);
+  return { pack, entities, verbs: verbMap(block.verbs), preferred };
+}
+
+function featurePackFiles(projectRoot: string): string[] {
+  const dirs: string[] = [];
+  const scoped = path.join(projectRoot, 'node_modules', '@hit');
+  try {
+    for (const entry of fs.readdirSync(scoped, { withFileTypes: true })) {
+      if (entry.isDirectory() || entry.isSymbolicLink()) dirs.push(path.join(scoped, entry.name));
+    }
+  } catch {
+    // no installed packs
+  }
+  for (const dir of (process.env.HIT_AI_FEATURE_PACK_DIRS || '').split(',')) {
+    if (dir.trim()) dirs.push(path.resolve(projectRoot, dir.trim()));
+  }
+  return dirs.map((d) => path.join(d, 'feature-pack.yaml')).filter((f) => fs.existsSync(f));
+}
+
+let packCache: { key: string; hints: PackAiHints[] } | null = null;
+
+/** `ai:` blocks of installed feature packs; re-read when any feature-pack.yaml changes. */
+export function loadPackAiHints(projectRoot: string): PackAiHints[] {
+  const files = featurePackFiles(projectRoot);
+  const key = files
+    .map((f) => {
+      try {
+        return `${f}@${fs.statSync(f).mtimeMs}`;
+      } catch {
+        return f;
+      }
+    })
+    .join('|');
+  if (packCache?.key === key) return packCache.hints;
+
+  const hints: PackAiHints[] = [];
+  for (const file of files) {
+    try {
+      const text = fs.readFileSync(file, 'utf8');
+      const block = readYamlSection(text, 'ai');
+      if (!block) continue;
+      const name = /^name:\s*(.+?)\s*$/m.exec(text)?.[1];
+      hints.push(parsePackAiHints(name ? unquote(name) : path.basename(path.dirname(file)), block));
+    } catch {
+      // a malformed pack file only loses its own hints
+    }
+  }
+  packCache = { key, hints };
+  return hints;
+}
+
+/** Merge implicit, capabilities and feature-pack hints for a catalog. */
+export function buildSearchHints(methods: MethodSpec[], packs: PackAiHints[] = []): SearchHints {
+  const entities: EntityHint[] = [];
+  const preferred: PreferredHint[] = [];
+  const verbs = new Map<string, Set<string>>();
+  const addVerbs = (map: Record<string, string[]> | undefined) => {
+    for (const [method, words] of Object.entries(map ?? {})) {
+      const set = verbs.get(method.toUpperCase()) ?? new Set<string>();
+      for (const w of words) set.add(w.toLowerCase());
+      verbs.set(method.toUpperCase(), set);
+    }
+  };
+
+  const implicit = new Map<string, EntityHint>();
+  const seenEntries = new Set<string>();
+  for (const m of methods) {
+    const segments = m.pathTemplate.split('/').filter(Boolean);
+    segments.forEach((seg, i) => {
+      if (i === 0 || seg.startsWith('[')) return;
+      const prefix = `/${segments.slice(0, i + 1).join('/')}`;
+      if (!implicit.has(prefix)) {
+        implicit.set(prefix, { name: seg, synonyms: [], paths: [prefix], declared: false, pack: m.featurePack });
+      }
+    });
+
+    // Capabilities hints are per entry; every method of the entry carries the same copy.
+    const ai = m.ai;
+    if (!ai || seenEntries.has(m.pathTemplate)) continue;
+    seenEntries.add(m.pathTemplate);
+    if (typeof ai.entity === 'string' && ai.entity.trim()) {
+      entities.push({
+        name: ai.entity.trim(),
+        synonyms: strings(ai.synonyms),
+        paths: [m.pathTemplate],
+        declared: true,
+        pack: m.featurePack,
+      });
+    }
+    addVerbs(ai.verbs);
+    const when = strings(ai.preferredFor);
+    if (when.length > 0) preferred.push({ when, path: m.pathTemplate, pack: m.featurePack });
+  }
+
+  for (const pack of packs) {
+    entities.push(...pack.entities);
+    preferred.push(...pack.preferred);
+    addVerbs(pack.verbs);
+  }
+  entities.push(...implicit.values());
+
+  return {
+    entities,
+    intents: Array.from(verbs, ([method, words]) => ({ words: Array.from(words), methods: [method] })),
+    preferred,
+  };
+}
+
+/** True if every token of `phrase` occurs in the query. */
+function mentions(queryTerms: Set<string>, phrase: string): boolean {
+  const terms = tokenize(phrase);
+  return terms.length > 0 && terms.every((t) => queryTerms.has(t));
+}
+
+function servesPath(prefixes: string[], pathTemplate: string): boolean {
+  return prefixes.some((p) => pathTemplate === p || pathTemplate.startsWith(`${p.replace(/\/+$/, '')}/`));
+}
+
+/**
+ * Rank the methods the query's nouns and phrases point at. Entities the query names
+ * put their endpoints in the ranking (declared ones above inferred ones); preferred
+ * endpoints rank above both.
+ */
+export function hintRanking(query: string, methods: MethodSpec[], hints: SearchHints): Ranking {
+  const queryTerms = new Set(tokenize(query));
+  const named = hints.entities
+    .map((e) => ({ e, word: [e.name, ...e.synonyms].find((w) => mentions(queryTerms, w)) }))
+    .filter((x): x is { e: EntityHint; word: string } => Boolean(x.word));
+  const rules = hints.preferred
+    .map((p) => ({ p, word: p.when.find((w) => mentions(queryTerms, w)) }))
+    .filter((x): x is { p: PreferredHint; word: string } => Boolean(x.word));
+
+  const scored: Array<{ name: string; score: number; reason: string }> = [];
+  for (const m of methods) {
+    let score = 0;
+    const reasons: string[] = [];
+    const counted = new Set<string>();
+    for (const { e, word } of named) {
+      // Count each path once, even when a pack declares what is also inferred.
+      const key = e.paths.join('|');
+      if (counted.has(key) || !servesPath(e.paths, m.pathTemplate)) continue;
+      counted.add(key);
+      score += e.declared ? DECLARED_WEIGHT : IMPLICIT_WEIGHT;
+      reasons.push(word.toLowerCase() === e.name.toLowerCase() ? `“${word}”` : `“${word}” means ${e.name}`);
+    }
+    for (const { p, word } of rules) {
+      if (p.path !== m.pathTemplate || (p.method && p.method !== m.method)) continue;
+      score += PREFERRED_WEIGHT;
+      reasons.push(`preferred for “${word}”`);
+    }
+    if (score > 0) scored.push({ name: m.name, score, reason: reasons.join(', ') });
+  }
+  scored.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+  return {
+    source: 'hints',
+    names: scored.map((x) => x.name),
+    reasons: Object.fromEntries(scored.map((x) => [x.name, x.reason])),
+  };
+}
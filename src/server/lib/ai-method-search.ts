@@ -0,0 +1,108 @@
+import type { MethodSpec } from './ai-methods';
+import { buildSearchHints, hintRanking, type PackAiHints, type SearchHints } from './ai-hints';
+import { retrieveMethods, type EmbeddingProvider, type MatchExplanation, type Ranking } from './ai-retrieval';
+
+// The full `methods-search` pipeline over an in-memory catalog: pack filter,
+// retrievers, feature-pack hints and page context. The route and the offline
+// retrieval benchmark (bench/retrieval) both call this, so benchmark numbers
+// describe what the agent actually gets.
+
+export type MethodSearchInput = {
+  query: string;
+  /** Restrict to one feature pack; empty or `all` searches every pack. */
+  pack?: string | null;
+  /** Page the user is on, e.g. `/crm/contacts/123`; a weak signal for that area's endpoints. */
+  pathname?: string | null;
+  limit?: number;
+  /** `ai:` blocks of installed feature packs (see loadPackAiHints). */
+  packHints?: PackAiHints[];
+  /** Defaults to the configured provider; null searches lexically only. */
+  embeddings?: EmbeddingProvider | null;
+};
+
+export type MethodCandidate = MethodSpec & { match?: MatchExplanation };
+
+/** Page context counts for half as much as a retriever. */
+const PAGE_WEIGHT = 0.5;
+
+// Per-catalog memos. A cached catalog keeps its `methods` array until the file changes,
+// so pack subsets (and the BM25 indexes keyed on them) and hints are built once per version.
+const packSubsets = new WeakMap<MethodSpec[], Map<string, MethodSpec[]>>();
+const hintSets = new WeakMap<MethodSpec[], WeakMap<PackAiHints[], SearchHints>>();
+const NO_PACK_HINTS: PackAiHints[] = [];
+
+export function methodsForPack(methods: MethodSpec[], pack: string | null | undefined): MethodSpec[] {
+  const key = (pack || '').trim().toLowerCase();
+  if (!key || key === 'all') return methods;
+  let subsets = packSubsets.get(methods);
+  if (!subsets) packSubsets.set(methods, (subsets = new Map()));
+  let subset = subsets.get(key);
+  if (!subset) subsets.set(key, (subset = methods.filter((m) => String(m.featurePack || '').toLowerCase() === key)));
+  return subset;
+}
+
+function searchHintsFor(methods: MethodSpec[], packHints: PackAiHints[]): SearchHints {
+  let byPacks = hintSets.get(methods);
+  if (!byPacks) hintSets.set(methods, (byPacks = new WeakMap()));
+  let hints = byPacks.get(packHints);
+  if (!hints) byPacks.set(packHints, (hints = buildSearchHints(methods, packHints)));
+  return hints;
+}
+
+/**
+ * Endpoints under the API path that mirrors the page, deepest match first:
+ * on `/crm/contacts/123`, `/api/crm/contacts/...` ranks above the rest of `/api/crm/...`.
+ */
+function pageRanking(pathname: string, methods: MethodSpec[]): Ranking | null {
+  const page = pathname
+    .split('?')[0]
+    .split('/')
+    .filter((s) => s && !/^[0-9a-f-]{6,}$/i.test(s) && !/^\d+$/.test(s));
+  if (page.length === 0) return null;
+  const depth = (m: MethodSpec) => {
+    const segs = m.pathTemplate.split('/').filter(Boolean);
+    if (segs[0] !== 'api') return 0;
+    let n = 0;
+    while (n < page.length && segs[n + 1] === page[n]) n++;
+    return n;
+  };
+  const scored = methods
+    .map((m) => ({ name: m.name, depth: depth(m) }))
+    .filter((x) => x.depth > 0)
+    .sort((a, b) => b.depth - a.depth || a.name.localeCompare(b.name));
+  if (scored.length === 0) return null;
+  return {
+    source: 'page',
+    names: scored.map((x) => x.name),
+    weight: PAGE_WEIGHT,
+    reasons: Object.fromEntries(scored.map((x) => [x.name, `on ${pathname.split('?')[0]}`])),
+  };
+}
+
+export async function searchMethodCatalog(
+  methods: MethodSpec[],
+  input: MethodSearchInput
+): Promise<{ candidates: MethodCandidate[]; warnings: string[] }> {
+  const limit = input.limit ?? 12;
+  const filtered = methodsForPack(methods, input.pack);
+
+  // Without a query, list the catalog as-is.
+  if (!input.query.trim()) return { candidates: filtered.slice(0, limit), warnings: [] };
+
+  // Hints come from the whole catalog so pack-level declarations resolve before the pack filter.
+  const hints = searchHintsFor(methods, input.packHints ?? NO_PACK_HINTS);
+  const rankings = [hintRanking(input.query, filtered, hints)];
+  const page = input.pathname ? pageRanking(input.pathname, filtered) : null;
+  if (page) rankings.push(page);
+
+  const { results, vectorError } = await retrieveMethods(filtered, input.query, {
+    limit,
+    extraRankings: rankings,
+    intents: hints.intents,
+    ...(input.embeddings !== undefined ? { embeddings: input.embeddings } : {}),
+  });
+  return {
+    candidates: results.map((r) => ({ ...r.method, match: r.match })),
+    warnings: vectorError ? [`Embedding search unavailable: ${vectorError}`] : [],
+  };
+}
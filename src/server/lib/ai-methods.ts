@@ -1,6 +1,21 @@
 import fs from 'node:fs';
 import path from 'node:path';
 
+/**
+ * Search hints a feature pack attaches to one capabilities entry (see ai-hints for
+ * the pack-wide `ai:` block in feature-pack.yaml).
+ */
+export type CapabilityAiHints = {
+  /** Entity this endpoint serves, e.g. `deal`. */
+  entity?: string;
+  /** Other words users say for the entity, e.g. `opportunity`. */
+  synonyms?: string[];
+  /** Pack-specific verbs by HTTP method, e.g. `{ POST: ['log', 'schedule'] }`. */
+  verbs?: Record<string, string[]>;
+  /** Words that should route here even without the entity, e.g. `total`, `trend`. */
+  preferredFor?: string[];
+};
+
 export type CapabilityEndpoint = {
   pathTemplate: string;
   methods: string[];
@@ -16,6 +31,7 @@ export type CapabilityEndpoint = {
   jsonSchema?: Record<string, any>;
   querySchema?: Record<string, any>;
   responseSchema?: Record<string, any>;
+  ai?: CapabilityAiHints;
 };
 
 export type CapabilitiesFile = {
@@ -43,6 +59,8 @@ export type MethodSpec = {
    * Populated from capabilities endpoint `_featurePack` (hit-cli generated).
    */
   featurePack?: string;
+  /** Search hints from the capabilities entry. */
+  ai?: CapabilityAiHints;
 };
 
 function extractPathParams(pathTemplate: string): string[] {
@@ -109,6 +127,7 @@ export function buildMethodCatalog(caps: CapabilitiesFile): MethodSpec[] {
         responseSchema,
         readOnly: m === 'GET',
         featurePack: typeof ep._featurePack === 'string' && ep._featurePack.trim() ? ep._featurePack.trim() : undefined,
+        ai: ep.ai && typeof ep.ai === 'object' ? ep.ai : undefined,
       });
     }
   }
@@ -117,5 +136,98 @@ export function buildMethodCatalog(caps: CapabilitiesFile): MethodSpec[] {
   return out;
 }
 
+function templateMatches(pathTemplate: string, concretePath: string): boolean {
+  const tpl = pathTemplate.split('/').filter(Boolean);
+  const segs = concretePath.split('?')[0].split('/').filter(Boolean);
+  for (let i = 0; i < tpl.length; i++) {
+    const t = tpl[i];
+    // Catch-all segments ([...path] / [[...path]]) swallow the rest.
+    if (/^\[\[?\.\.\./.test(t)) return t.startsWith('[[') || segs.length > i;
+    if (i >= segs.length) return false;
+    if (/^\[[^\]]+\]$/.test(t)) continue;
+    if (t !== segs[i]) return false;
+  }
+  return tpl.length === segs.length;
+}
+
+/**
+ * Find the catalog method for a concrete request (e.g. PUT /api/crm/contacts/123).
+ * Static segments win over dynamic ones when several templates match.
+ */
+export function matchMethodSpec(methods: MethodSpec[], httpMethod: string, concretePath: string): MethodSpec | null {
+  const m = httpMethod.toUpperCase();
+  let best: MethodSpec | null = null;
+  let bestStatic = -1;
+  for (const spec of methods) {
+    if (spec.method !== m) continue;
+    if (!templateMatches(spec.pathTemplate, concretePath)) continue;
+    const staticSegs = spec.pathTemplate.split('/').filter((s) => s && !s.startsWith('[')).length;
+    if (staticSegs > bestStatic) {
+      best = spec;
+      bestStatic = staticSegs;
+    }
+  }
+  return best;
+}
+
+export type CanonicalApiPath = { ok: true; path: string; query: Record<string, string> } | { ok: false; error: string };
 
+const CANONICAL_ORIGIN = 'http://canonical.invalid';
 
+/**
+ * The path a request will actually reach, with any `?query` split out. Paths that
+ * only mean something after normalization (dot segments, raw or percent-encoded;
+ * encoded slashes; backslashes; another origin) are rejected rather than rewritten,
+ * so permission checks and the fetch always agree on the target.
+ *
+ * `{{steps.*}}` references (http.bulk) are kept verbatim; the caller canonicalizes
+ * again once they are resolved.
+ */
+export function canonicalizeApiPath(raw: string): CanonicalApiPath {
+  if (!raw.startsWith('/') || raw.startsWith('//')) return { ok: false, error: "path must be absolute, like '/api/...'" };
+  if (/[\\#]/.test(raw)) return { ok: false, error: 'path must not contain backslashes or fragments' };
+
+  const refs: string[] = [];
+  const masked = raw.replace(/\{\{[^{}]*\}\}/g, (ref) => `__hit_ref_${refs.push(ref) - 1}__`);
+  const unmask = (text: string) => text.replace(/__hit_ref_(\d+)__/g, (m, i: string) => refs[Number(i)] ?? m);
+
+  const rawPath = masked.split('?')[0];
+  if (/%(2f|5c)/i.test(rawPath)) return { ok: false, error: 'path must not contain encoded slashes' };
+  for (const seg of rawPath.split('/')) {
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(seg);
+    } catch {
+      return { ok: false, error: 'path contains invalid percent-encoding' };
+    }
+    if (decoded === '.' || decoded === '..') return { ok: false, error: 'path must not contain dot segments' };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(masked, CANONICAL_ORIGIN);
+  } catch {
+    return { ok: false, error: 'path is not a valid URL path' };
+  }
+  if (url.origin !== CANONICAL_ORIGIN) return { ok: false, error: 'path must stay on this origin' };
+  const query: Record<string, string> = {};
+  for (const [k, v] of url.searchParams) query[unmask(k)] = unmask(v);
+  return { ok: true, path: unmask(url.pathname), query };
+}
+
+/** Values of the dynamic segments of `concretePath`, keyed by param name. */
+export function extractPathParamValues(pathTemplate: string, concretePath: string): Record<string, string> {
+  const tpl = pathTemplate.split('/').filter(Boolean);
+  const segs = concretePath.split('?')[0].split('/').filter(Boolean);
+  const out: Record<string, string> = {};
+  for (let i = 0; i < tpl.length; i++) {
+    const catchAll = tpl[i].match(/^\[\[?\.\.\.([^\]]+)\]\]?$/);
+    if (catchAll) {
+      out[catchAll[1]] = segs.slice(i).map(decodeURIComponent).join('/');
+      break;
+    }
+    const param = tpl[i].match(/^\[([^\]]+)\]$/);
+    if (param && segs[i] !== undefined) out[param[1]] = decodeURIComponent(segs[i]);
+  }
+  return out;
+}
@@ -1,14 +1,272 @@
-export function autoApproveWritesEnabled(): boolean {
-  // Dev sandbox default: auto-approve writes in development.
-  // Can be overridden by setting HIT_AI_AUTO_APPROVE_WRITES=1.
-  return process.env.NODE_ENV === 'development' || process.env.HIT_AI_AUTO_APPROVE_WRITES === '1';
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import type { UserContext } from '../auth';
+import { canonicalizeApiPath, type MethodSpec } from './ai-methods';
+
+// Declarative AI execution policy.
+//
+// Loaded from `.hit/ai-policy.json` (or HIT_AI_POLICY_PATH) and validated with zod.
+// When no file exists, a built-in policy reproduces the historical behavior
+// (reads run, writes need approval, development auto-approves non-delete writes).
+
+export const policyActionSchema = z.enum(['auto_approve', 'require_approval', 'require_two_person_approval', 'deny']);
+
+const httpMethodSchema = z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']);
+
+const policyMatchSchema = z
+  .object({
+    /** Role names; a user matches when they hold any of them. "*" matches everyone. */
+    roles: z.array(z.string().min(1)).optional(),
+    /** Catalog method names (e.g. route_api_crm_contacts__POST). */
+    methods: z.array(z.string().min(1)).optional(),
+    /** Globs over the concrete path or route template (`*` = one segment, `**` = any). */
+    paths: z.array(z.string().min(1)).optional(),
+    httpMethods: z.array(httpMethodSchema).optional(),
+    featurePacks: z.array(z.string().min(1)).optional(),
+    /** Matched against HIT_ENV, falling back to NODE_ENV. */
+    environments: z.array(z.string().min(1)).optional(),
+  })
+  .strict();
+
+const policyRuleSchema = z
+  .object({
+    id: z.string().min(1),
+    description: z.string().optional(),
+    match: policyMatchSchema.default({}),
+    action: policyActionSchema,
+    reason: z.string().optional(),
+    /** Who may give the second approval when `action` is require_two_person_approval. Defaults to admin. */
+    approverRoles: z.array(z.string().min(1)).min(1).optional(),
+  })
+  .strict();
+
+export const aiPolicySchema = z
+  .object({
+    version: z.literal(1),
+    defaults: z
+      .object({
+        read: policyActionSchema.default('auto_approve'),
+        write: policyActionSchema.default('require_approval'),
+        delete: policyActionSchema.default('require_approval'),
+      })
+      .strict()
+      .default({ read: 'auto_approve', write: 'require_approval', delete: 'require_approval' }),
+    rules: z.array(policyRuleSchema).default([]),
+  })
+  .strict();
+
+export type PolicyAction = z.infer<typeof policyActionSchema>;
+export type PolicyRule = z.infer<typeof policyRuleSchema>;
+export type AiPolicy = z.infer<typeof aiPolicySchema>;
+
+export type LoadedPolicy = {
+  source: 'file' | 'builtin' | 'invalid';
+  path: string | null;
+  environment: string;
+  policy: AiPolicy;
+  errors?: string[];
+};
+
+export type PolicyTarget = {
+  httpMethod: string;
+  /** Concrete request path; rules only ever see its canonical form. */
+  path: string;
+  spec?: MethodSpec | null;
+};
+
+export type PolicyDecision = {
+  action: PolicyAction;
+  reason?: string;
+  ruleId?: string;
+  /** Set for require_two_person_approval: the second approver must hold one of these roles. */
+  approverRoles?: string[];
+};
+
+export const DEFAULT_APPROVER_ROLES = ['admin'];
+
+const ACTION_RANK: Record<PolicyAction, number> = {
+  auto_approve: 0,
+  require_approval: 1,
+  require_two_person_approval: 2,
+  deny: 3,
+};
+
+let cached: { path: string; mtimeMs: number; loaded: LoadedPolicy } | null = null;
+
+export function currentEnvironment(): string {
+  return process.env.HIT_ENV || process.env.NODE_ENV || 'production';
+}
+
+function policyPath(projectRoot: string): string {
+  return process.env.HIT_AI_POLICY_PATH || path.join(projectRoot, '.hit', 'ai-policy.json');
+}
+
+function builtinPolicy(): AiPolicy {
+  const writes: Array<'POST' | 'PUT' | 'PATCH'> = ['POST', 'PUT', 'PATCH'];
+  const rules: PolicyRule[] = [
+    {
+      id: 'builtin.development-auto-approve-writes',
+      description: 'Dev sandbox default: auto-approve non-delete writes in development.',
+      match: { environments: ['development'], httpMethods: writes },
+      action: 'auto_approve',
+    },
+  ];
+  // Legacy env switches are folded into the built-in policy so existing
+  // deployments keep working until they adopt a policy file.
+  const legacyWrites = process.env.HIT_AI_AUTO_APPROVE_WRITES === '1';
+  if (legacyWrites) {
+    rules.push({
+      id: 'builtin.legacy-auto-approve-writes',
+      description: 'HIT_AI_AUTO_APPROVE_WRITES=1',
+      match: { httpMethods: writes },
+      action: 'auto_approve',
+    });
+  }
+  if (process.env.HIT_AI_AUTO_APPROVE_DELETE === '1') {
+    rules.push({
+      id: 'builtin.legacy-auto-approve-delete',
+      description: 'HIT_AI_AUTO_APPROVE_DELETE=1',
+      match: legacyWrites ? { httpMethods: ['DELETE'] } : { environments: ['development'], httpMethods: ['DELETE'] },
+      action: 'auto_approve',
+    });
+  }
+  return aiPolicySchema.parse({ version: 1, rules });
 }
 
-export function autoApproveDeleteEnabled(): boolean {
-  // Extra guardrail: even in rogue mode, DELETE defaults to requiring approval.
-  // Flip on if you really want it: HIT_AI_AUTO_APPROVE_DELETE=1
-  return process.env.HIT_AI_AUTO_APPROVE_DELETE === '1';
+/**
+ * Load the policy in force. Results are cached until the file's mtime changes.
+ * An invalid policy file fails closed (everything denied) and reports why.
+ */
+export function loadAiPolicy(projectRoot: string): LoadedPolicy {
+  const p = policyPath(projectRoot);
+  const environment = currentEnvironment();
+
+  let stat: fs.Stats | null = null;
+  try {
+    stat = fs.statSync(p);
+  } catch {
+    stat = null;
+  }
+  if (!stat) {
+    return { source: 'builtin', path: null, environment, policy: builtinPolicy() };
+  }
+  if (cached && cached.path === p && cached.mtimeMs === stat.mtimeMs) {
+    return { ...cached.loaded, environment };
+  }
+
+  let loaded: LoadedPolicy;
+  try {
+    const raw = JSON.parse(fs.readFileSync(p, 'utf8'));
+    const parsed = aiPolicySchema.safeParse(raw);
+    if (parsed.success) {
+      loaded = { source: 'file', path: p, environment, policy: parsed.data };
+    } else {
+      loaded = {
+        source: 'invalid',
+        path: p,
+        environment,
+        policy: denyAllPolicy(),
+        errors: parsed.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`),
+      };
+    }
+  } catch (e) {
+    loaded = {
+      source: 'invalid',
+      path: p,
+      environment,
+      policy: denyAllPolicy(),
+      errors: [e instanceof Error ? e.message : 'Failed to read policy file'],
+    };
+  }
+
+  cached = { path: p, mtimeMs: stat.mtimeMs, loaded };
+  return loaded;
 }
 
+function denyAllPolicy(): AiPolicy {
+  return { version: 1, defaults: { read: 'deny', write: 'deny', delete: 'deny' }, rules: [] };
+}
 
+function globToRegExp(glob: string): RegExp {
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      re += '.*';
+      i++;
+    } else if (c === '*') {
+      re += '[^/]*';
+    } else {
+      re += c.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+function matchesAny(values: string[] | undefined, candidates: Array<string | undefined>, glob = false): boolean {
+  if (!Array.isArray(values) || values.length === 0) return true;
+  return values.some((v) =>
+    candidates.some((c) => {
+      if (!c) return false;
+      return glob ? globToRegExp(v).test(c) : v.toLowerCase() === c.toLowerCase();
+    })
+  );
+}
 
+function ruleMatches(rule: PolicyRule, user: UserContext, target: PolicyTarget, environment: string): boolean {
+  const match = rule.match || {};
+  if (Array.isArray(match.roles) && match.roles.length > 0) {
+    if (!match.roles.includes('*') && !match.roles.some((r) => user.roles.includes(r))) return false;
+  }
+  const spec = target.spec;
+  return (
+    matchesAny(match.environments, [environment]) &&
+    matchesAny(match.methods, [spec?.name]) &&
+    matchesAny(match.httpMethods, [target.httpMethod]) &&
+    matchesAny(match.featurePacks, [spec?.featurePack]) &&
+    matchesAny(match.paths, [target.path, spec?.pathTemplate], true)
+  );
+}
+
+function defaultActionFor(policy: AiPolicy, httpMethod: string): PolicyAction {
+  const m = httpMethod.toUpperCase();
+  if (m === 'GET') return policy.defaults.read;
+  if (m === 'DELETE') return policy.defaults.delete;
+  return policy.defaults.write;
+}
+
+/**
+ * Decide how `user` may call `target`. When rules match, the most restrictive
+ * one wins (deny > two-person > approval > auto); otherwise the per-verb
+ * default applies.
+ *
+ * Path globs match the canonical pathname, so `/api/crm/../admin` or a `?query`
+ * cannot step around a rule; paths that do not canonicalize are denied.
+ */
+export function evaluatePolicy(user: UserContext, target: PolicyTarget, loaded: LoadedPolicy): PolicyDecision {
+  const canon = canonicalizeApiPath(target.path);
+  if (!canon.ok) return { action: 'deny', reason: `Path rejected: ${canon.error}` };
+  target = { ...target, path: canon.path };
+
+  let decision: PolicyDecision | null = null;
+  for (const rule of loaded.policy.rules) {
+    if (!ruleMatches(rule, user, target, loaded.environment)) continue;
+    if (!decision || ACTION_RANK[rule.action] > ACTION_RANK[decision.action]) {
+      decision = { action: rule.action, reason: rule.reason, ruleId: rule.id };
+      if (rule.action === 'require_two_person_approval') {
+        decision.approverRoles = rule.approverRoles ?? DEFAULT_APPROVER_ROLES;
+      }
+    }
+  }
+  if (decision) return decision;
+
+  const action = defaultActionFor(loaded.policy, target.httpMethod);
+  if (action === 'require_two_person_approval') return { action, approverRoles: DEFAULT_APPROVER_ROLES };
+  if (loaded.source === 'invalid') return { action, reason: 'AI policy file is invalid; all methods are denied' };
+  return { action, reason: action === 'deny' ? 'No policy rule permits this method for your roles' : undefined };
+}
+
+export function mostRestrictive(actions: PolicyAction[]): PolicyAction {
+  return actions.reduce<PolicyAction>((acc, a) => (ACTION_RANK[a] > ACTION_RANK[acc] ? a : acc), 'auto_approve');
+}
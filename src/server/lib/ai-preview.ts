@@ -0,0 +1,122 @@
+import { extractPathParamValues, type MethodSpec } from './ai-methods';
+import { coerceQueryValues, validateJsonSchema, type SchemaIssue } from './ai-schema';
+
+// Dry-run previews for /api/ai/execute: what a write would change, without sending it.
+
+export type FieldChange = {
+  /** Dotted field path, e.g. "address.city". */
+  field: string;
+  change: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+};
+
+export type StepPreview = {
+  method: string;
+  path: string;
+  methodName: string | null;
+  description: string | null;
+  pathParams: Record<string, string>;
+  valid: boolean;
+  errors: SchemaIssue[];
+  before: unknown;
+  after: unknown;
+  diff: FieldChange[];
+  /** Set when the current resource could not be read. */
+  beforeError?: string;
+};
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return Boolean(v) && typeof v === 'object' && !Array.isArray(v);
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Field-level diff of two records; arrays and scalars compare as whole values. */
+export function diffRecords(before: unknown, after: unknown, prefix = ''): FieldChange[] {
+  if (!isPlainObject(before) || !isPlainObject(after)) {
+    if (same(before, after)) return [];
+    if (before === undefined || before === null) return [{ field: prefix || '(root)', change: 'added', after }];
+    if (after === undefined || after === null) return [{ field: prefix || '(root)', change: 'removed', before }];
+    return [{ field: prefix || '(root)', change: 'changed', before, after }];
+  }
+  const out: FieldChange[] = [];
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+  for (const k of keys) {
+    const field = prefix ? `${prefix}.${k}` : k;
+    const b = before[k];
+    const a = after[k];
+    if (b === undefined && a !== undefined) out.push({ field, change: 'added', after: a });
+    else if (a === undefined && b !== undefined) out.push({ field, change: 'removed', before: b });
+    else if (isPlainObject(b) && isPlainObject(a)) out.push(...diffRecords(b, a, field));
+    else if (!same(a, b)) out.push({ field, change: 'changed', before: b, after: a });
+  }
+  return out;
+}
+
+function unwrapRecord(resp: unknown): unknown {
+  if (isPlainObject(resp) && isPlainObject(resp.data)) return resp.data;
+  return resp;
+}
+
+/** Validate a step's query and body against the schemas of its catalog method. */
+export function validateStep(
+  spec: MethodSpec | null,
+  step: { method: string; query: Record<string, unknown> | null; body: Record<string, unknown> | null }
+): SchemaIssue[] {
+  if (!spec) return [];
+  const issues: SchemaIssue[] = [];
+  if (spec.querySchema) {
+    for (const i of validateJsonSchema(spec.querySchema, coerceQueryValues(spec.querySchema, step.query ?? {}))) {
+      issues.push({ path: i.path ? `query.${i.path}` : 'query', message: i.message });
+    }
+  }
+  if (step.method !== 'GET' && step.method !== 'DELETE') {
+    const body = step.body ?? {};
+    if (spec.jsonSchema) {
+      for (const i of validateJsonSchema(spec.jsonSchema, body)) {
+        issues.push({ path: i.path ? `body.${i.path}` : 'body', message: i.message });
+      }
+    } else if (Array.isArray(spec.requiredBodyFields)) {
+      for (const f of spec.requiredBodyFields) {
+        if ((body as Record<string, unknown>)[f] === undefined) issues.push({ path: `body.${f}`, message: 'Required' });
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Describe what a step would do. `current` is the resource as it exists now
+ * (already fetched by the caller for PUT/PATCH/DELETE), or null.
+ */
+export function buildStepPreview(
+  spec: MethodSpec | null,
+  step: { method: string; path: string; query: Record<string, unknown> | null; body: Record<string, unknown> | null },
+  current: { value: unknown } | { error: string } | null
+): StepPreview {
+  const errors = validateStep(spec, step);
+  const before = current && 'value' in current ? unwrapRecord(current.value) : null;
+
+  let after: unknown = null;
+  if (step.method === 'GET') after = before;
+  else if (step.method === 'POST' || step.method === 'PUT') after = step.body ?? {};
+  else if (step.method === 'PATCH') after = isPlainObject(before) ? { ...before, ...(step.body ?? {}) } : step.body ?? {};
+  else if (step.method === 'DELETE') after = null;
+
+  return {
+    method: step.method,
+    path: step.path,
+    methodName: spec?.name ?? null,
+    description: spec?.description ?? null,
+    pathParams: spec ? extractPathParamValues(spec.pathTemplate, step.path) : {},
+    valid: errors.length === 0,
+    errors,
+    before,
+    after,
+    diff: step.method === 'GET' ? [] : diffRecords(before, after),
+    ...(current && 'error' in current ? { beforeError: current.error } : {}),
+  };
+}
@@ -0,0 +1,494 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { MethodSpec } from './ai-methods';
+
+// Method retrieval for the agent's `methods-search` step.
+//
+// Two retrievers rank the catalog independently and their rankings are fused with
+// reciprocal-rank fusion (RRF), so neither score scale has to be calibrated against
+// the other:
+//
+// - BM25 over each method's path, docs and field names (body fields, query params,
+//   JSON-schema properties). Field weights favour the path, which names the entity.
+// - Optional embeddings. The provider is pluggable: `createHashingEmbeddingProvider`
+//   runs in-process with no model download; `createHttpEmbeddingProvider` calls any
+//   OpenAI-compatible `/embeddings` endpoint (a local Ollama model or a hosted one).
+//   Method vectors are cached on disk by document hash, so only changed methods are
+//   re-embedded.
+//
+// Callers may add their own rankings (e.g. entity hints) to the fusion. Every result
+// explains which retrievers found it, at what rank, and through which terms.
+
+export type EmbeddingProvider = {
+  /** Stable id (provider + model); cached vectors are only reused for the same id. */
+  id: string;
+  embed(texts: string[]): Promise<number[][]>;
+};
+
+export type Ranking = {
+  /** Shown in explanations, e.g. `bm25`, `vector`, `hints`. */
+  source: string;
+  /** Method names, best first. */
+  names: string[];
+  weight?: number;
+  /** Optional per-method reason, shown in the explanation. */
+  reasons?: Record<string, string>;
+};
+
+export type MatchExplanation = {
+  /** Fused RRF score (intent adjustments included). */
+  score: number;
+  bm25?: { rank: number; score: number; terms: Array<{ term: string; fields: string[] }> };
+  vector?: { rank: number; similarity: number; provider: string };
+  /** Ranks from caller-supplied rankings, keyed by source. */
+  extra?: Record<string, { rank: number; reason?: string }>;
+  /** Human-readable summary, e.g. "bm25 #1 (contacts in path)". */
+  reasons: string[];
+};
+
+export type RetrievedMethod = { method: MethodSpec; match: MatchExplanation };
+
+export type RetrieveOptions = {
+  limit?: number;
+  /** Defaults to `getEmbeddingProvider()`; pass null to search lexically only. */
+  embeddings?: EmbeddingProvider | null;
+  extraRankings?: Ranking[];
+  /** Pack verbs, in addition to the built-in create/update/delete words. */
+  intents?: Intent[];
+};
+
+/** Query words that point at HTTP methods, e.g. "log" at POST. */
+export type Intent = { words: string[]; methods: string[] };
+
+type Field = 'path' | 'doc' | 'fields' | 'pack';
+
+const FIELD_WEIGHTS: Record<Field, number> = { path: 3, doc: 1, fields: 1, pack: 0.5 };
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const RRF_K = 60;
+/** Vector hits below this cosine similarity are not counted as matches. */
+const MIN_SIMILARITY = 0.2;
+const VECTOR_DEPTH = 50;
+const EMBED_BATCH = 64;
+
+const STOPWORDS = new Set(
+  (
+    'a an and api are as at be but by can could did do does for from get give have how i in is it just me my of on or ' +
+    'please show tell that the there this to up what when where who with would you your'
+  ).split(' ')
+);
+
+// Intent words and the HTTP methods they point at; generic across packs.
+const INTENTS: Intent[] = [
+  { words: ['add', 'create', 'new', 'make', 'log', 'record'], methods: ['POST'] },
+  { words: ['update', 'edit', 'change', 'correct', 'fix', 'rename', 'set'], methods: ['PUT', 'PATCH'] },
+  { words: ['delete', 'remove'], methods: ['DELETE'] },
+];
+
+/** Crude English stemmer: enough to match `contacts` with `contact` and `companies` with `company`. */
+function stem(term: string): string {
+  if (term.length > 4 && term.endsWith('ies')) return `${term.slice(0, -3)}y`;
+  if (term.length > 4 && /(ss|x|ch|sh)es$/.test(term)) return term.slice(0, -2);
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+  return term;
+}
+
+/** Lowercased, stemmed terms; splits camelCase, snake_case and path segments. */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t))
+    .map(stem);
+}
+
+function schemaPropertyNames(schema: unknown, depth = 0, out: string[] = []): string[] {
+  if (!schema || typeof schema !== 'object' || depth > 3) return out;
+  const s = schema as Record<string, any>;
+  if (s.properties && typeof s.properties === 'object') {
+    for (const [key, value] of Object.entries(s.properties)) {
+      out.push(key);
+      schemaPropertyNames(value, depth + 1, out);
+    }
+  }
+  if (s.items) schemaPropertyNames(s.items, depth + 1, out);
+  for (const key of ['anyOf', 'oneOf', 'allOf']) {
+    if (Array.isArray(s[key])) for (const sub of s[key]) schemaPropertyNames(sub, depth + 1, out);
+  }
+  return out;
+}
+
+/** The text of each field a method is indexed under. */
+export function methodFields(m: MethodSpec): Record<Field, string> {
+  // Descriptions are "METHOD /path — docs"; the prefix duplicates the path field.
+  const dash = m.description.indexOf(' — ');
+  const doc = dash === -1 ? (m.description.startsWith(m.method) ? '' : m.description) : m.description.slice(dash + 3);
+  const fieldNames = [
+    ...(m.requiredBodyFields ?? []),
+    ...(m.bodyFields ?? []),
+    ...(m.queryParams ?? []),
+    ...schemaPropertyNames(m.jsonSchema),
+    ...schemaPropertyNames(m.querySchema),
+  ];
+  return {
+    path: m.pathTemplate.replace(/\[\[?(?:\.\.\.)?([^\]]+)\]\]?/g, ' $1 '),
+    doc,
+    fields: Array.from(new Set(fieldNames)).join(' '),
+    pack: m.featurePack ?? '',
+  };
+}
+
+/** Plain-text form of a method for embedding. */
+export function methodText(m: MethodSpec): string {
+  const f = methodFields(m);
+  return [`${m.method} ${m.pathTemplate}`, f.doc, f.fields && `fields: ${f.fields}`].filter(Boolean).join('\n');
+}
+
+type IndexedDoc = {
+  method: MethodSpec;
+  /** Weighted term frequency across fields. */
+  tf: Map<string, number>;
+  /** Fields each term occurs in, for explanations. */
+  where: Map<string, Set<Field>>;
+  length: number;
+};
+
+export type Bm25Index = {
+  size: number;
+  search(query: string, limit?: number): Array<{ method: MethodSpec; score: number; terms: Array<{ term: string; fields: string[] }> }>;
+};
+
+export function createBm25Index(methods: MethodSpec[]): Bm25Index {
+  const docs: IndexedDoc[] = [];
+  const df = new Map<string, number>();
+  let totalLength = 0;
+
+  for (const method of methods) {
+    const tf = new Map<string, number>();
+    const where = new Map<string, Set<Field>>();
+    let length = 0;
+    const fields = methodFields(method);
+    for (const field of Object.keys(fields) as Field[]) {
+      const weight = FIELD_WEIGHTS[field];
+      for (const term of tokenize(fields[field])) {
+        tf.set(term, (tf.get(term) ?? 0) + weight);
+        if (!where.has(term)) where.set(term, new Set());
+        where.get(term)!.add(field);
+        length += weight;
+      }
+    }
+    for (const term of tf.keys()) df.set(term, (df.get(term) ?? 0) + 1);
+    docs.push({ method, tf, where, length });
+    totalLength += length;
+  }
+  const avgLength = docs.length > 0 ? totalLength / docs.length : 0;
+
+  return {
+    size: docs.length,
+    search(query, limit = docs.length) {
+      const terms = Array.from(new Set(tokenize(query)));
+      if (terms.length === 0) return [];
+      const idf = new Map(
+        terms.map((t) => {
+          const n = df.get(t) ?? 0;
+          return [t, Math.log(1 + (docs.length - n + 0.5) / (n + 0.5))];
+        })
+      );
+      const hits: ReturnType<Bm25Index['search']> = [];
+      for (const doc of docs) {
+        let score = 0;
+        const matched: Array<{ term: string; fields: string[] }> = [];
+        for (const term of terms) {
+          const f = doc.tf.get(term);
+          if (!f) continue;
+          const norm = BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / (avgLength || 1));
+          score += idf.get(term)! * ((f * (BM25_K1 + 1)) / (f + norm));
+          matched.push({ term, fields: Array.from(doc.where.get(term) ?? []) });
+        }
+        if (score > 0) hits.push({ method: doc.method, score, terms: matched });
+      }
+      return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+    },
+  };
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na > 0 && nb > 0 ? dot / Math.sqrt(na * nb) : 0;
+}
+
+/**
+ * In-process embeddings from hashed word and character-trigram features. No model to
+ * download; catches spelling variants and shared word stems that BM25 misses, but it
+ * has no notion of synonyms.
+ */
+export function createHashingEmbeddingProvider(dimensions = 512): EmbeddingProvider {
+  const bucket = (feature: string) => crypto.createHash('md5').update(feature).digest().readUInt32LE(0) % dimensions;
+  return {
+    id: `hashing-${dimensions}`,
+    async embed(texts) {
+      return texts.map((text) => {
+        const v = new Array<number>(dimensions).fill(0);
+        for (const term of tokenize(text)) {
+          v[bucket(`w:${term}`)] += 2;
+          const padded = ` ${term} `;
+          for (let i = 0; i + 3 <= padded.length; i++) v[bucket(`c:${padded.slice(i, i + 3)}`)] += 1;
+        }
+        return v;
+      });
+    },
+  };
+}
+
+const DEFAULT_EMBEDDING_TIMEOUT_MS = 10_000;
+
+/**
+ * Embeddings from an OpenAI-compatible `POST {baseUrl}/embeddings` (OpenAI, Ollama, vLLM, ...).
+ * Requests give up after `timeoutMs` so a hung endpoint falls back to lexical search.
+ */
+export function createHttpEmbeddingProvider(options: {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+}): EmbeddingProvider {
+  const url = `${options.baseUrl.replace(/\/+$/, '')}/embeddings`;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_EMBEDDING_TIMEOUT_MS;
+  return {
+    id: `http:${options.model}@${options.baseUrl}`,
+    async embed(texts) {
+      let res: Response;
+      try {
+        res = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+          },
+          body: JSON.stringify({ model: options.model, input: texts }),
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+      } catch (e) {
+        if (e instanceof Error && (e.name === 'TimeoutError' || e.name === 'AbortError')) {
+          throw new Error(`Embedding request timed out after ${timeoutMs}ms`);
+        }
+        throw e;
+      }
+      const data = (await res.json().catch(() => null)) as any;
+      if (!res.ok || !Array.isArray(data?.data)) {
+        throw new Error(`Embedding request failed: HTTP ${res.status}${data?.error ? ` ${JSON.stringify(data.error)}` : ''}`);
+      }
+      return (data.data as any[])
+        .slice()
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map((d) => (Array.isArray(d?.embedding) ? (d.embedding as number[]) : []));
+    },
+  };
+}
+
+let provider: EmbeddingProvider | null | undefined;
+
+export function setEmbeddingProvider(next: EmbeddingProvider | null) {
+  provider = next;
+}
+
+/**
+ * The configured provider, or null for lexical search only. Configured with
+ * HIT_AI_EMBEDDINGS=local (hashing) or HIT_AI_EMBEDDINGS=http plus
+ * HIT_AI_EMBEDDINGS_URL, HIT_AI_EMBEDDINGS_MODEL and optionally HIT_AI_EMBEDDINGS_API_KEY
+ * and HIT_AI_EMBEDDINGS_TIMEOUT_MS (default 10000).
+ */
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  if (provider !== undefined) return provider;
+  const mode = (process.env.HIT_AI_EMBEDDINGS || '').trim().toLowerCase();
+  if (mode === 'local') {
+    provider = createHashingEmbeddingProvider();
+  } else if (mode === 'http' && process.env.HIT_AI_EMBEDDINGS_URL && process.env.HIT_AI_EMBEDDINGS_MODEL) {
+    provider = createHttpEmbeddingProvider({
+      baseUrl: process.env.HIT_AI_EMBEDDINGS_URL,
+      model: process.env.HIT_AI_EMBEDDINGS_MODEL,
+      apiKey: process.env.HIT_AI_EMBEDDINGS_API_KEY || undefined,
+      timeoutMs: Number(process.env.HIT_AI_EMBEDDINGS_TIMEOUT_MS) > 0 ? Number(process.env.HIT_AI_EMBEDDINGS_TIMEOUT_MS) : undefined,
+    });
+  } else {
+    provider = null;
+  }
+  return provider;
+}
+
+// Method vectors by provider id, then by hash of the embedded text.
+type VectorCache = Record<string, Record<string, number[]>>;
+
+let vectorCache: VectorCache | null = null;
+// Hashing vectors are cheaper to recompute than to store, so they are only kept in memory.
+const memoryVectors: VectorCache = {};
+let vectorCacheWrite: Promise<void> = Promise.resolve();
+
+function vectorCachePath(): string {
+  return process.env.HIT_AI_EMBEDDINGS_INDEX_PATH || path.join(process.cwd(), '.hit', 'ai-method-embeddings.json');
+}
+
+async function loadVectorCache(): Promise<VectorCache> {
+  if (vectorCache) return vectorCache;
+  try {
+    const parsed = JSON.parse(await fs.promises.readFile(vectorCachePath(), 'utf8'));
+    vectorCache = parsed && typeof parsed === 'object' ? (parsed as VectorCache) : {};
+  } catch {
+    vectorCache = {};
+  }
+  return vectorCache;
+}
+
+function persistVectorCache(cache: VectorCache) {
+  const filePath = vectorCachePath();
+  vectorCacheWrite = vectorCacheWrite
+    .then(async () => {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      const tmp = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+      await fs.promises.writeFile(tmp, JSON.stringify(cache), 'utf8');
+      await fs.promises.rename(tmp, filePath);
+    })
+    .catch(() => {
+      // the index is rebuilt from the catalog when the file is missing
+    });
+}
+
+/** Vectors for every method, embedding only those not already in the on-disk index. */
+async function methodVectors(methods: MethodSpec[], embeddings: EmbeddingProvider): Promise<Map<string, number[]>> {
+  const persistent = !embeddings.id.startsWith('hashing-');
+  const cache = persistent ? await loadVectorCache() : memoryVectors;
+  const byHash = (cache[embeddings.id] ??= {});
+  const texts = methods.map(methodText);
+  const hashes = texts.map((t) => crypto.createHash('sha256').update(t).digest('hex').slice(0, 32));
+
+  const missing = Array.from(new Set(hashes.map((h, i) => (byHash[h] ? -1 : i)).filter((i) => i >= 0)));
+  for (let start = 0; start < missing.length; start += EMBED_BATCH) {
+    const batch = missing.slice(start, start + EMBED_BATCH);
+    const vectors = await embeddings.embed(batch.map((i) => texts[i]));
+    batch.forEach((i, j) => {
+      if (Array.isArray(vectors[j]) && vectors[j].length > 0) byHash[hashes[i]] = vectors[j];
+    });
+  }
+  if (missing.length > 0) {
+    // Drop vectors for methods no longer in the catalog.
+    const live = new Set(hashes);
+    for (const h of Object.keys(byHash)) if (!live.has(h)) delete byHash[h];
+    if (persistent) persistVectorCache(cache);
+  }
+
+  const out = new Map<string, number[]>();
+  methods.forEach((m, i) => {
+    if (byHash[hashes[i]]) out.set(m.name, byHash[hashes[i]]);
+  });
+  return out;
+}
+
+// Callers that reuse one catalog array reuse its index.
+const bm25Indexes = new WeakMap<MethodSpec[], Bm25Index>();
+
+/** The BM25 index for this exact array, built on first use. */
+export function getBm25Index(methods: MethodSpec[]): Bm25Index {
+  let index = bm25Indexes.get(methods);
+  if (!index) bm25Indexes.set(methods, (index = createBm25Index(methods)));
+  return index;
+}
+
+function queryIntent(query: string, extra: Intent[] = []): string[] {
+  const terms = new Set(query.toLowerCase().split(/[^a-z0-9]+/));
+  return [...INTENTS, ...extra].filter((i) => i.words.some((w) => terms.has(w))).flatMap((i) => i.methods);
+}
+
+/**
+ * Rank `methods` for a natural-language query. Returns at most `limit` methods, each
+ * with an explanation of why it matched.
+ */
+export async function retrieveMethods(
+  methods: MethodSpec[],
+  query: string,
+  options: RetrieveOptions = {}
+): Promise<{ results: RetrievedMethod[]; vectorError?: string }> {
+  const limit = options.limit ?? 12;
+  const byName = new Map(methods.map((m) => [m.name, m]));
+  const rankings: Ranking[] = [];
+
+  const bm25 = getBm25Index(methods).search(query);
+  const bm25ByName = new Map(bm25.map((h, i) => [h.method.name, { ...h, rank: i + 1 }]));
+  rankings.push({ source: 'bm25', names: bm25.map((h) => h.method.name) });
+
+  let vectorError: string | undefined;
+  const vectorByName = new Map<string, { rank: number; similarity: number }>();
+  const embeddings = options.embeddings === undefined ? getEmbeddingProvider() : options.embeddings;
+  if (embeddings && query.trim()) {
+    try {
+      const [vectors, [queryVector]] = await Promise.all([methodVectors(methods, embeddings), embeddings.embed([query])]);
+      const scored = methods
+        .map((m) => ({ name: m.name, similarity: vectors.has(m.name) ? cosine(queryVector, vectors.get(m.name)!) : 0 }))
+        .filter((x) => x.similarity >= MIN_SIMILARITY)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, VECTOR_DEPTH);
+      scored.forEach((x, i) => vectorByName.set(x.name, { rank: i + 1, similarity: x.similarity }));
+      rankings.push({ source: 'vector', names: scored.map((x) => x.name) });
+    } catch (e) {
+      // Lexical results still stand on their own.
+      vectorError = e instanceof Error ? e.message : String(e);
+    }
+  }
+  rankings.push(...(options.extraRankings ?? []));
+
+  const fused = new Map<string, number>();
+  for (const r of rankings) {
+    r.names.forEach((name, i) => {
+      if (byName.has(name)) fused.set(name, (fused.get(name) ?? 0) + (r.weight ?? 1) / (RRF_K + i + 1));
+    });
+  }
+
+  const intent = queryIntent(query, options.intents);
+  const results: RetrievedMethod[] = [];
+  for (const [name, rrf] of fused) {
+    const method = byName.get(name)!;
+    const reasons: string[] = [];
+    const match: MatchExplanation = { score: rrf, reasons };
+
+    const lexical = bm25ByName.get(name);
+    if (lexical) {
+      match.bm25 = { rank: lexical.rank, score: lexical.score, terms: lexical.terms };
+      const terms = lexical.terms.map((t) => `${t.term} in ${t.fields.join('/')}`).join(', ');
+      reasons.push(`bm25 #${lexical.rank} (${terms})`);
+    }
+    const semantic = vectorByName.get(name);
+    if (semantic && embeddings) {
+      match.vector = { rank: semantic.rank, similarity: semantic.similarity, provider: embeddings.id };
+      reasons.push(`vector #${semantic.rank} (similarity ${semantic.similarity.toFixed(2)})`);
+    }
+    for (const r of options.extraRankings ?? []) {
+      const i = r.names.indexOf(name);
+      if (i === -1) continue;
+      (match.extra ??= {})[r.source] = { rank: i + 1, ...(r.reasons?.[name] ? { reason: r.reasons[name] } : {}) };
+      reasons.push(`${r.source} #${i + 1}${r.reasons?.[name] ? ` (${r.reasons[name]})` : ''}`);
+    }
+
+    // Verbs in the query ("create", "delete"...) favour the matching HTTP method.
+    if (intent.length > 0) {
+      if (intent.includes(method.method)) {
+        match.score *= 1.5;
+        reasons.push(`${method.method} fits the requested action`);
+      } else if (method.method === 'GET') {
+        match.score *= 0.8;
+      }
+    }
+    if (method.pathTemplate.startsWith('/api/ai/')) match.score *= 0.8;
+    results.push({ method, match });
+  }
+
+  results.sort((a, b) => b.match.score - a.match.score || a.method.name.localeCompare(b.method.name));
+  return { results: results.slice(0, limit), ...(vectorError ? { vectorError } : {}) };
+}
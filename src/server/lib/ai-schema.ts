@@ -0,0 +1,191 @@
+// Minimal JSON Schema validator for the schemas hit-cli generates (Zod -> JSON Schema).
+//
+// Covers the keywords those schemas use: type (incl. arrays / nullable), enum,
+// const, properties, required, additionalProperties, items, string/number/array
+// bounds, common formats, anyOf/oneOf/allOf and local $ref (#/definitions, #/$defs).
+// Unknown keywords are ignored rather than rejected.
+
+export type SchemaIssue = {
+  /** Dotted path into the validated value ("" = root), e.g. "contacts.0.email". */
+  path: string;
+  message: string;
+};
+
+const FORMATS: Record<string, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  uri: /^[a-z][a-z0-9+.-]*:/i,
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function typeMatches(expected: string, actual: string): boolean {
+  return expected === actual || (expected === 'number' && actual === 'integer');
+}
+
+function join(path: string, key: string | number): string {
+  return path ? `${path}.${key}` : String(key);
+}
+
+function resolveRef(root: any, ref: string): any {
+  if (!ref.startsWith('#/')) return undefined;
+  let cur = root;
+  for (const part of ref.slice(2).split('/')) {
+    if (cur == null || typeof cur !== 'object') return undefined;
+    cur = cur[part.replace(/~1/g, '/').replace(/~0/g, '~')];
+  }
+  return cur;
+}
+
+function check(schema: any, value: unknown, path: string, root: any, issues: SchemaIssue[], depth: number) {
+  if (!schema || typeof schema !== 'object' || depth > 32) return;
+  if (typeof schema.$ref === 'string') {
+    check(resolveRef(root, schema.$ref), value, path, root, issues, depth + 1);
+    return;
+  }
+
+  const actual = typeOf(value);
+  const types: string[] = Array.isArray(schema.type) ? schema.type : typeof schema.type === 'string' ? [schema.type] : [];
+  if (schema.nullable === true && value === null) return;
+  if (types.length && !types.some((t) => typeMatches(t, actual))) {
+    issues.push({ path, message: `Expected ${types.join(' or ')}, got ${actual}` });
+    return;
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((e: unknown) => JSON.stringify(e) === JSON.stringify(value))) {
+    issues.push({ path, message: `Must be one of: ${schema.enum.map((e: unknown) => JSON.stringify(e)).join(', ')}` });
+  }
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    issues.push({ path, message: `Must equal ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      issues.push({ path, message: `Must be at least ${schema.minLength} characters` });
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      issues.push({ path, message: `Must be at most ${schema.maxLength} characters` });
+    }
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) issues.push({ path, message: `Must match ${schema.pattern}` });
+      } catch {
+        // ignore patterns JS cannot compile
+      }
+    }
+    const fmt = typeof schema.format === 'string' ? FORMATS[schema.format] : undefined;
+    if (fmt && !fmt.test(value)) issues.push({ path, message: `Must be a valid ${schema.format}` });
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) issues.push({ path, message: `Must be >= ${schema.minimum}` });
+    if (typeof schema.maximum === 'number' && value > schema.maximum) issues.push({ path, message: `Must be <= ${schema.maximum}` });
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      issues.push({ path, message: `Must be > ${schema.exclusiveMinimum}` });
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      issues.push({ path, message: `Must be < ${schema.exclusiveMaximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      issues.push({ path, message: `Must have at least ${schema.minItems} items` });
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      issues.push({ path, message: `Must have at most ${schema.maxItems} items` });
+    }
+    if (schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)) {
+      value.forEach((v, i) => check(schema.items, v, join(path, i), root, issues, depth + 1));
+    }
+  }
+
+  if (actual === 'object') {
+    const obj = value as Record<string, unknown>;
+    const props = schema.properties && typeof schema.properties === 'object' ? schema.properties : {};
+    for (const key of Array.isArray(schema.required) ? schema.required : []) {
+      if (obj[key] === undefined) issues.push({ path: join(path, key), message: 'Required' });
+    }
+    for (const [key, v] of Object.entries(obj)) {
+      if (v === undefined) continue;
+      if (key in props) check(props[key], v, join(path, key), root, issues, depth + 1);
+      else if (schema.additionalProperties === false) issues.push({ path: join(path, key), message: 'Unknown field' });
+      else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        check(schema.additionalProperties, v, join(path, key), root, issues, depth + 1);
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf) check(sub, value, path, root, issues, depth + 1);
+  }
+  for (const key of ['anyOf', 'oneOf'] as const) {
+    if (!Array.isArray(schema[key]) || schema[key].length === 0) continue;
+    const branches = schema[key].map((sub: any) => {
+      const sink: SchemaIssue[] = [];
+      check(sub, value, path, root, sink, depth + 1);
+      return sink;
+    });
+    const passing = branches.filter((b: SchemaIssue[]) => b.length === 0).length;
+    if (passing === 0) {
+      // Report the closest branch so the caller gets actionable field errors.
+      const closest = branches.reduce((a: SchemaIssue[], b: SchemaIssue[]) => (b.length < a.length ? b : a));
+      issues.push(...closest);
+    } else if (key === 'oneOf' && passing > 1) {
+      issues.push({ path, message: 'Matches more than one allowed shape' });
+    }
+  }
+}
+
+/** Validate `value` against `schema`; returns an empty list when it conforms. */
+export function validateJsonSchema(schema: unknown, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  check(schema, value, '', schema, issues, 0);
+  return issues;
+}
+
+function deref(root: any, schema: any): any {
+  for (let depth = 0; schema && typeof schema.$ref === 'string' && depth < 32; depth++) {
+    schema = resolveRef(root, schema.$ref);
+  }
+  return schema;
+}
+
+function coerceScalar(schema: any, value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const types: string[] = Array.isArray(schema?.type) ? schema.type : typeof schema?.type === 'string' ? [schema.type] : [];
+  if (types.includes('string')) return value;
+  if ((types.includes('number') || types.includes('integer')) && value.trim() !== '' && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  if (types.includes('boolean') && (value === 'true' || value === 'false')) return value === 'true';
+  return value;
+}
+
+/**
+ * Query strings only carry text: convert values whose property schema expects a
+ * number, integer or boolean, so `?limit=10` validates against `{ type: 'number' }`.
+ * Values that do not parse are left as strings for the validator to report.
+ */
+export function coerceQueryValues(schema: unknown, query: Record<string, unknown>): Record<string, unknown> {
+  const root = deref(schema, schema);
+  const props = root?.properties && typeof root.properties === 'object' ? root.properties : {};
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(query)) {
+    const prop = deref(schema, props[key]);
+    if (Array.isArray(value)) {
+      const items = deref(schema, prop?.items);
+      out[key] = items && typeof items === 'object' ? value.map((v) => coerceScalar(items, v)) : value;
+    } else {
+      out[key] = coerceScalar(prop, value);
+    }
+  }
+  return out;
+}
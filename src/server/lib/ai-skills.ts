@@ -0,0 +1,240 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { UserContext } from '../auth';
+
+// Saved prompt templates ("skills") for the AI assistant.
+//
+// A skill is either private to its owner (`scope: 'user'`) or shared with everyone
+// holding one of its roles (`scope: 'role'`; no roles means every signed-in user).
+// Templates use `{{variable}}` placeholders that the overlay asks for on insert.
+//
+// The default store keeps every skill in `.hit/ai-skills.json` (or HIT_AI_SKILLS_PATH).
+// Apps can plug in a database-backed store with `setSkillStore`.
+
+export type SkillScope = 'user' | 'role';
+
+export type SkillVariable = {
+  name: string;
+  label?: string;
+  default?: string;
+};
+
+export type Skill = {
+  id: string;
+  /** Slash-command name, e.g. `log-call` for `/log-call`. */
+  name: string;
+  title: string;
+  description: string;
+  template: string;
+  variables: SkillVariable[];
+  scope: SkillScope;
+  /** Owner of a user-scoped skill; author of a shared one. */
+  ownerId: string;
+  roles: string[];
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type SkillInput = {
+  name?: unknown;
+  title?: unknown;
+  description?: unknown;
+  template?: unknown;
+  variables?: unknown;
+  scope?: unknown;
+  roles?: unknown;
+};
+
+export type SkillStore = {
+  list(): Promise<Skill[]>;
+  get(id: string): Promise<Skill | null>;
+  /**
+   * Insert or replace by id, unless another skill already holds the name
+   * (see findNameConflict). The check and the write must be atomic.
+   */
+  save(skill: Skill): Promise<{ ok: true } | { ok: false; conflict: Skill }>;
+  delete(id: string): Promise<boolean>;
+};
+
+const NAME_RE = /^[a-z0-9][a-z0-9-]{0,47}$/;
+/** The overlay's built-in commands (builtinSlashCommands in components/ai-commands) always win over skills. */
+const RESERVED_NAMES = new Set(['help', 'new', 'trace', 'export', 'methods', 'run']);
+const VARIABLE_RE = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+const MAX_TEMPLATE_CHARS = 8000;
+const MAX_TEXT_CHARS = 200;
+
+let store: SkillStore | null = null;
+
+/** Placeholder names in order of first appearance. */
+export function extractVariables(template: string): string[] {
+  const seen = new Set<string>();
+  for (const m of template.matchAll(VARIABLE_RE)) seen.add(m[1]);
+  return Array.from(seen);
+}
+
+export function renderSkill(template: string, values: Record<string, string>): string {
+  return template.replace(VARIABLE_RE, (whole, name: string) => (name in values ? values[name] : whole));
+}
+
+export function canViewSkill(user: UserContext, skill: Skill): boolean {
+  if (skill.scope === 'user') return skill.ownerId === user.userId;
+  return skill.roles.length === 0 || skill.roles.some((r) => user.roles.includes(r));
+}
+
+/** Users manage their own skills; shared skills are managed by admins. */
+export function canEditSkill(user: UserContext, skill: Skill): boolean {
+  if (user.roles.includes('admin')) return true;
+  return skill.scope === 'user' && skill.ownerId === user.userId;
+}
+
+function text(raw: unknown, max: number): string {
+  return typeof raw === 'string' ? raw.replace(/\s+/g, ' ').trim().slice(0, max) : '';
+}
+
+/**
+ * Validate create/update input, merged over `existing` when updating.
+ * Variable metadata is kept only for placeholders the template actually uses.
+ */
+export function buildSkill(
+  user: UserContext,
+  input: SkillInput,
+  existing?: Skill
+): { ok: true; skill: Skill } | { ok: false; error: string } {
+  const name = input.name !== undefined ? text(input.name, 48).toLowerCase() : existing?.name ?? '';
+  if (!NAME_RE.test(name)) {
+    return { ok: false, error: 'name must be 1-48 lowercase letters, digits or dashes' };
+  }
+  if (RESERVED_NAMES.has(name)) return { ok: false, error: `/${name} is a built-in command` };
+  const template = input.template !== undefined ? (typeof input.template === 'string' ? input.template.trim() : '') : existing?.template ?? '';
+  if (!template) return { ok: false, error: 'template is required' };
+  if (template.length > MAX_TEMPLATE_CHARS) {
+    return { ok: false, error: `template must be at most ${MAX_TEMPLATE_CHARS} characters` };
+  }
+  const scope = input.scope !== undefined ? input.scope : existing?.scope ?? 'user';
+  if (scope !== 'user' && scope !== 'role') return { ok: false, error: "scope must be 'user' or 'role'" };
+  if (scope === 'role' && !user.roles.includes('admin')) {
+    return { ok: false, error: 'Only admins can share skills with roles' };
+  }
+  if (input.roles !== undefined && !Array.isArray(input.roles)) return { ok: false, error: 'roles must be an array' };
+  const roles =
+    scope === 'user'
+      ? []
+      : Array.isArray(input.roles)
+        ? Array.from(new Set(input.roles.map((r) => text(r, 64)).filter(Boolean)))
+        : existing?.roles ?? [];
+
+  const given = Array.isArray(input.variables) ? (input.variables as any[]) : existing?.variables ?? [];
+  const meta = new Map<string, SkillVariable>();
+  for (const v of given) {
+    if (v && typeof v === 'object' && typeof v.name === 'string') meta.set(v.name, v);
+  }
+  const variables = extractVariables(template).map((n) => {
+    const v = meta.get(n);
+    const out: SkillVariable = { name: n };
+    if (v && text(v.label, MAX_TEXT_CHARS)) out.label = text(v.label, MAX_TEXT_CHARS);
+    if (v && typeof v.default === 'string' && v.default) out.default = v.default.slice(0, MAX_TEXT_CHARS);
+    return out;
+  });
+
+  const now = new Date().toISOString();
+  return {
+    ok: true,
+    skill: {
+      id: existing?.id ?? crypto.randomUUID(),
+      name,
+      title: (input.title !== undefined ? text(input.title, MAX_TEXT_CHARS) : existing?.title) || name,
+      description: input.description !== undefined ? text(input.description, 500) : existing?.description ?? '',
+      template,
+      variables,
+      scope,
+      ownerId: existing?.ownerId ?? user.userId,
+      roles,
+      createdBy: existing?.createdBy ?? (user.email || user.userId),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    },
+  };
+}
+
+/** A user's skill names must be unique among their own; shared names among shared skills. */
+export function findNameConflict(skills: Skill[], candidate: Skill): Skill | null {
+  return (
+    skills.find(
+      (s) =>
+        s.id !== candidate.id &&
+        s.name === candidate.name &&
+        s.scope === candidate.scope &&
+        (s.scope === 'role' || s.ownerId === candidate.ownerId)
+    ) ?? null
+  );
+}
+
+export function createFileSkillStore(filePath: string): SkillStore {
+  // Serialize read-modify-write cycles within this process.
+  let chain: Promise<unknown> = Promise.resolve();
+
+  async function readAll(): Promise<Skill[]> {
+    try {
+      const parsed = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+      return Array.isArray(parsed?.skills) ? (parsed.skills as Skill[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async function writeAll(skills: Skill[]) {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.promises.writeFile(tmp, JSON.stringify({ skills }, null, 2), 'utf8');
+    await fs.promises.rename(tmp, filePath);
+  }
+
+  function mutate<T>(fn: (skills: Skill[]) => Promise<T>): Promise<T> {
+    const next = chain.then(async () => fn(await readAll()));
+    chain = next.catch(() => undefined);
+    return next;
+  }
+
+  return {
+    list: readAll,
+
+    async get(id) {
+      return (await readAll()).find((s) => s.id === id) ?? null;
+    },
+
+    save(skill) {
+      return mutate(async (skills) => {
+        const conflict = findNameConflict(skills, skill);
+        if (conflict) return { ok: false as const, conflict };
+        const i = skills.findIndex((s) => s.id === skill.id);
+        if (i === -1) skills.push(skill);
+        else skills[i] = skill;
+        await writeAll(skills);
+        return { ok: true as const };
+      });
+    },
+
+    delete(id) {
+      return mutate(async (skills) => {
+        const rest = skills.filter((s) => s.id !== id);
+        if (rest.length === skills.length) return false;
+        await writeAll(rest);
+        return true;
+      });
+    },
+  };
+}
+
+export function setSkillStore(next: SkillStore | null) {
+  store = next;
+}
+
+export function getSkillStore(): SkillStore {
+  if (!store) {
+    const filePath = process.env.HIT_AI_SKILLS_PATH || path.join(process.cwd(), '.hit', 'ai-skills.json');
+    store = createFileSkillStore(filePath);
+  }
+  return store;
+}
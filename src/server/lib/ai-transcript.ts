@@ -0,0 +1,180 @@
+import crypto from 'node:crypto';
+import type { Conversation, StoredMessage } from './ai-conversations';
+
+// Conversation exports (Markdown / JSON / printable HTML) and signed read-only
+// share links for admins.
+//
+// Share tokens are HMAC-signed with HIT_AI_SHARE_SECRET (falling back to
+// HIT_AI_APPROVAL_SECRET). Without either, links only work until the process restarts.
+
+export type TranscriptFormat = 'markdown' | 'json' | 'html';
+
+type ShareTokenPayload = {
+  v: 1;
+  /** Conversation owner and id. */
+  uid: string;
+  cid: string;
+  /** Admin who created the link. */
+  by: string;
+  exp: number;
+};
+
+export type SharedTranscript = {
+  ownerId: string;
+  conversationId: string;
+  sharedBy: string;
+  expiresAt: number;
+};
+
+export const SHARE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+let processSecret: Buffer | null = null;
+
+function shareSecret(): Buffer {
+  const configured = process.env.HIT_AI_SHARE_SECRET || process.env.HIT_AI_APPROVAL_SECRET;
+  if (configured) return Buffer.from(configured, 'utf8');
+  if (!processSecret) processSecret = crypto.randomBytes(32);
+  return processSecret;
+}
+
+function sign(data: string): string {
+  return crypto.createHmac('sha256', shareSecret()).update(`share:${data}`).digest('base64url');
+}
+
+export function parseTranscriptFormat(raw: string | null): TranscriptFormat | null {
+  const f = (raw || 'markdown').toLowerCase();
+  if (f === 'md' || f === 'markdown') return 'markdown';
+  if (f === 'json' || f === 'html') return f;
+  return null;
+}
+
+/** Distinct agent runs referenced by the conversation, in order of appearance. */
+export function conversationCorrelationIds(c: Conversation): string[] {
+  const seen = new Set<string>();
+  for (const m of c.messages) if (m.correlationId) seen.add(m.correlationId);
+  return Array.from(seen);
+}
+
+function speaker(m: StoredMessage): string {
+  return m.role === 'user' ? 'You' : m.role === 'assistant' ? 'Assistant' : 'System';
+}
+
+function approvalTarget(m: StoredMessage): string {
+  const input = (m.approval?.input ?? {}) as Record<string, any>;
+  if (m.approval?.toolName === 'http.bulk') {
+    const n = Array.isArray(input.requests) ? input.requests.length : 0;
+    return `http.bulk (${n} request${n === 1 ? '' : 's'})`;
+  }
+  return `${String(input.method || 'GET').toUpperCase()} ${String(input.path || '')}`.trim();
+}
+
+export function transcriptToMarkdown(c: Conversation): string {
+  const lines: string[] = [`# ${c.title}`, ''];
+  lines.push(`- Conversation: \`${c.id}\``);
+  lines.push(`- Started: ${c.createdAt}`);
+  lines.push(`- Last updated: ${c.updatedAt}`);
+  if (c.pathname) lines.push(`- Page: ${c.pathname}`);
+  lines.push('', '---', '');
+  for (const m of c.messages) {
+    const meta = [m.at, m.correlationId ? `correlationId \`${m.correlationId}\`` : null].filter(Boolean).join(' · ');
+    lines.push(`**${speaker(m)}**${meta ? ` · ${meta}` : ''}`, '', m.content, '');
+    if (m.approval) {
+      lines.push(`> Approval: ${approvalTarget(m)} — ${m.approval.status}`, '');
+      lines.push('```json', JSON.stringify({ input: m.approval.input, result: m.approval.result }, null, 2), '```', '');
+    }
+  }
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+export function transcriptToJson(c: Conversation): Record<string, unknown> {
+  const { userId: _userId, ...rest } = c;
+  return {
+    ...rest,
+    exportedAt: new Date().toISOString(),
+    correlationIds: conversationCorrelationIds(c),
+    approvals: c.messages
+      .filter((m) => m.approval)
+      .map((m) => ({ at: m.at ?? null, correlationId: m.correlationId ?? null, ...m.approval })),
+  };
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+/** Self-contained, printable HTML. Message text is escaped, never interpreted as HTML. */
+export function transcriptToHtml(c: Conversation): string {
+  const rows = c.messages
+    .map((m) => {
+      const meta = [m.at, m.correlationId ? `correlationId ${m.correlationId}` : null].filter(Boolean).join(' · ');
+      const approval = m.approval
+        ? `<details class="approval" open><summary>Approval: ${escapeHtml(approvalTarget(m))} — ${escapeHtml(m.approval.status)}</summary><pre>${escapeHtml(
+            JSON.stringify({ input: m.approval.input, result: m.approval.result }, null, 2)
+          )}</pre></details>`
+        : '';
+      return `<section class="msg ${m.role}"><div class="who">${escapeHtml(speaker(m))}${
+        meta ? ` <span class="meta">${escapeHtml(meta)}</span>` : ''
+      }</div><div class="text">${escapeHtml(m.content)}</div>${approval}</section>`;
+    })
+    .join('\n');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(c.title)}</title>
+<style>
+  body { font: 14px/1.5 ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial; color: #0f172a; max-width: 820px; margin: 32px auto; padding: 0 16px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .info { color: #64748b; font-size: 12px; margin-bottom: 24px; }
+  .msg { border: 1px solid #e2e8f0; border-radius: 10px; padding: 10px 12px; margin: 0 0 10px; break-inside: avoid; }
+  .msg.user { background: #eff6ff; }
+  .who { font-weight: 700; margin-bottom: 4px; }
+  .meta { font-weight: 400; color: #64748b; font-size: 12px; }
+  .text { white-space: pre-wrap; word-break: break-word; }
+  .approval { margin-top: 8px; font-size: 12px; }
+  pre { white-space: pre-wrap; word-break: break-word; background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 6px; padding: 8px; }
+  @media print { body { margin: 0; max-width: none; } .msg { border-color: #cbd5e1; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(c.title)}</h1>
+<div class="info">Conversation ${escapeHtml(c.id)} · started ${escapeHtml(c.createdAt)}${c.pathname ? ` on ${escapeHtml(c.pathname)}` : ''}</div>
+${rows}
+</body>
+</html>
+`;
+}
+
+/** Read-only link to one conversation; anyone holding it with the admin role can view it until it expires. */
+export function issueShareToken(
+  c: Conversation,
+  sharedBy: string,
+  ttlMs: number = SHARE_TTL_MS
+): { token: string; expiresAt: number } {
+  const payload: ShareTokenPayload = { v: 1, uid: c.userId, cid: c.id, by: sharedBy, exp: Date.now() + ttlMs };
+  const encoded = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  return { token: `${encoded}.${sign(encoded)}`, expiresAt: payload.exp };
+}
+
+export function verifyShareToken(token: string): { ok: true; share: SharedTranscript } | { ok: false; reason: string } {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return { ok: false, reason: 'Malformed share link' };
+  const expected = Buffer.from(sign(encoded));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+    return { ok: false, reason: 'Invalid share link' };
+  }
+  let payload: ShareTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as ShareTokenPayload;
+  } catch {
+    return { ok: false, reason: 'Malformed share link' };
+  }
+  if (payload.v !== 1 || typeof payload.exp !== 'number') return { ok: false, reason: 'Malformed share link' };
+  if (payload.exp <= Date.now()) return { ok: false, reason: 'Share link expired' };
+  return {
+    ok: true,
+    share: { ownerId: payload.uid, conversationId: payload.cid, sharedBy: payload.by, expiresAt: payload.exp },
+  };
+}
@@ -0,0 +1,12 @@
+// Which fields never leave the app in AI-facing data: audit entries on the server,
+// page context in the browser. Dependency-free so both sides share one list.
+
+const SECRET_KEY = /pass(word)?|secret|token|api[-_]?key|authorization|cookie|ssn|card[-_]?number|cvv/i;
+
+/** Placeholder that replaces the value of a secret-looking field. */
+export const REDACTED = '[REDACTED]';
+
+/** True when a field named `key` likely holds a credential or sensitive identifier. */
+export function isSecretKey(key: string): boolean {
+  return SECRET_KEY.test(key);
+}